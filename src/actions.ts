@@ -1,5 +1,8 @@
 import * as vscode from "vscode";
-import { contextualizeLogger, relevantDiagnostics } from "./instrumentation";
+import { PreviewFixCommandHandler } from "./commands";
+import { blockRange, isDirectiveDiagnostic } from "./diagnostics";
+import { contextualizeLogger, EXT_NAME, relevantDiagnostics } from "./instrumentation";
+import { handleError } from "./errors";
 import * as workspace from "./workspace";
 import { LRUCache } from "lru-cache";
 
@@ -46,52 +49,96 @@ export class ActionProvider implements vscode.CodeActionProvider {
     return true;
   }
 
+  /**
+   * Creates the quick fix sorting only the block of the diagnostic, or a disabled one explaining
+   * why the block can't be sorted in isolation.
+   */
+  private async createBlockAction(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    token: vscode.CancellationToken
+  ): Promise<vscode.CodeAction> {
+    const action = new vscode.CodeAction(
+      `Sort all lines in block ${workspace.rangeText(blockRange(diagnostic))} (keep-sorted)`,
+      vscode.CodeActionKind.QuickFix
+    );
+    action.diagnostics = [diagnostic];
+    action.isPreferred = true;
+    try {
+      action.edit = (await this.editFactory.createForDiagnostic(document, diagnostic, token)).edit;
+    } catch (err: Error | unknown) {
+      if (err instanceof vscode.CancellationError) {
+        throw err;
+      }
+      handleError(err, contextualizeLogger(document, blockRange(diagnostic)), document.uri);
+      action.disabled = { reason: err instanceof Error ? err.message : workspace.toJson(err) };
+    }
+    return action;
+  }
+
   async provideCodeActions(
     document: vscode.TextDocument,
-    range: vscode.Range
+    range: vscode.Range,
+    _context: vscode.CodeActionContext,
+    token: vscode.CancellationToken
   ): Promise<vscode.CodeAction[]> {
     if (!this.shouldProvide(document, range)) {
       return [];
     }
 
-    const blockEditResult = await this.editFactory.create(document, range);
-    if (!blockEditResult) {
-      return [];
-    }
-
     const actionLogger = contextualizeLogger(document, range);
     const actions = [];
 
-    const blockAction = new vscode.CodeAction(
-      "Sort all lines in block (keep-sorted)",
-      vscode.CodeActionKind.QuickFix
+    // A fix per block, so a quick fix never changes other blocks
+    const blockDiagnostics = relevantDiagnostics(document, range).filter(
+      (d) => d.source === EXT_NAME && !isDirectiveDiagnostic(d)
     );
-    blockAction.diagnostics = blockEditResult.diagnostics;
-    blockAction.isPreferred = true;
-    blockAction.edit = blockEditResult.edit;
-    actions.push(blockAction);
+    if (blockDiagnostics.length === 0) {
+      return [];
+    }
+    for (const diagnostic of blockDiagnostics) {
+      actions.push(await this.createBlockAction(document, diagnostic, token));
+    }
 
     // Also create a fix-file action as SourceFixAll
-    const fixFileEditResult = await this.editFactory.create(document);
+    let fixFileEditResult: workspace.CreateEditResult | null = null;
+    try {
+      fixFileEditResult = await this.editFactory.create(document, undefined, token);
+    } catch (err: Error | unknown) {
+      if (err instanceof vscode.CancellationError) {
+        throw err;
+      }
+      handleError(err, actionLogger, document.uri);
+    }
     if (fixFileEditResult) {
       const title = "Sort all lines in file (keep-sorted)";
 
       const sourceFixFile = new vscode.CodeAction(title, vscode.CodeActionKind.SourceFixAll);
-      // Use the same diagnostics as the block action (filtered by range)
-      sourceFixFile.diagnostics = blockEditResult.diagnostics;
+      // Use the same diagnostics as the block actions (filtered by range)
+      sourceFixFile.diagnostics = blockDiagnostics;
       sourceFixFile.isPreferred = false;
       sourceFixFile.edit = fixFileEditResult.edit;
       actions.push(sourceFixFile);
 
       const quickFixFile = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
-      quickFixFile.diagnostics = blockEditResult.diagnostics;
+      quickFixFile.diagnostics = blockDiagnostics;
       quickFixFile.isPreferred = false;
       quickFixFile.edit = fixFileEditResult.edit;
       actions.push(quickFixFile);
+
+      // Shows the same edit in a diff first, applied only once confirmed
+      const previewFile = new vscode.CodeAction(
+        PreviewFixCommandHandler.COMMAND.title,
+        vscode.CodeActionKind.QuickFix
+      );
+      previewFile.diagnostics = blockDiagnostics;
+      previewFile.isPreferred = false;
+      previewFile.command = { ...PreviewFixCommandHandler.COMMAND, arguments: [document.uri] };
+      actions.push(previewFile);
     }
 
     const actionToString = (a: vscode.CodeAction) =>
-      `${a.title}(${a.diagnostics!.map((d) => workspace.rangeText(d.range)).join(",")})`;
+      `${a.title}(${a.diagnostics!.map((d) => workspace.rangeText(blockRange(d))).join(",")})`;
     actionLogger.info(`Providing code action(s):\n ${actions.map(actionToString).join("\n ")}`);
 
     return actions;
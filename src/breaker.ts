@@ -0,0 +1,135 @@
+import * as vscode from "vscode";
+import { CircuitOpenError } from "./errors";
+import { EXT_DISPLAY_NAME, logger, showLogs } from "./instrumentation";
+import { OPEN_LOGS } from "./notifications";
+
+/** Default number of consecutive failures before the binary stops being invoked. */
+const DEFAULT_FAILURE_THRESHOLD = 5;
+
+/** Default time to wait before trying the binary again after it stopped being invoked. */
+const DEFAULT_COOLDOWN_MS = 60 * 1000;
+
+const RETRY = "Retry";
+
+/** Options of a circuit breaker. */
+export interface CircuitBreakerOptions {
+  /** Number of consecutive failures that opens the circuit */
+  readonly failureThreshold?: number;
+  /** Time in milliseconds the circuit stays open before a trial invocation is let through */
+  readonly cooldownMs?: number;
+}
+
+/**
+ * Circuit breaker that stops invoking a repeatedly failing binary.
+ *
+ * - `closed`: Invocations run as normal and consecutive failures are counted
+ * - `open`: After too many consecutive failures, invocations are rejected without running until the
+ *   cooldown has passed or the user chooses to retry
+ * - `half-open`: After the cooldown, a single trial invocation runs; success closes the circuit and
+ *   failure opens it again for another cooldown
+ *
+ * The failure is shown once when the circuit opens rather than on every rejected invocation.
+ * Cancellations and errors the caller ignores aren't failures of the binary so are not counted.
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private failures = 0;
+  private openedAt: number | undefined;
+  private trialRunning = false;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+  }
+
+  /** The current state of the circuit. */
+  get state(): "closed" | "open" | "half-open" {
+    if (this.openedAt === undefined) {
+      return "closed";
+    }
+    return performance.now() - this.openedAt >= this.cooldownMs ? "half-open" : "open";
+  }
+
+  /**
+   * Runs the invocation unless the circuit is open.
+   *
+   * @param invocation The invocation to run
+   * @param failed Whether a result that didn't throw is still a failure, such as a crash exit code
+   * @param ignored Whether an error isn't a failure of the binary so isn't counted, such as one
+   *   handled by the caller
+   *
+   * @returns The result of the invocation
+   *
+   * @throws CircuitOpenError if the circuit is open
+   */
+  async run<T>(
+    invocation: () => Promise<T>,
+    failed: (result: T) => boolean = () => false,
+    ignored: (err: unknown) => boolean = () => false
+  ): Promise<T> {
+    const state = this.state;
+    if (state === "open" || (state === "half-open" && this.trialRunning)) {
+      throw new CircuitOpenError(this.failures);
+    }
+    const trial = state === "half-open";
+    if (trial) {
+      logger.info("Cooldown passed, trying the keep-sorted binary again.");
+      this.trialRunning = true;
+    }
+    try {
+      const result = await invocation();
+      if (failed(result)) {
+        this.recordFailure(trial);
+      } else {
+        this.reset();
+      }
+      return result;
+    } catch (err: Error | unknown) {
+      if (!(err instanceof vscode.CancellationError) && !ignored(err)) {
+        this.recordFailure(trial);
+      }
+      throw err;
+    } finally {
+      if (trial) {
+        this.trialRunning = false;
+      }
+    }
+  }
+
+  /** Closes the circuit so the next invocation runs. */
+  reset(): void {
+    if (this.openedAt !== undefined) {
+      logger.info("keep-sorted binary circuit closed.");
+    }
+    this.failures = 0;
+    this.openedAt = undefined;
+  }
+
+  private recordFailure(trial: boolean): void {
+    this.failures++;
+    if (trial) {
+      // Still failing, wait for another cooldown without notifying again
+      this.openedAt = performance.now();
+      logger.warn(`keep-sorted binary still failing, pausing for another ${this.cooldownMs}ms.`);
+      return;
+    }
+    if (this.openedAt !== undefined || this.failures < this.failureThreshold) {
+      return;
+    }
+    this.openedAt = performance.now();
+    const message =
+      `keep-sorted binary failed ${this.failures} times in a row, pausing it for ` +
+      `${Math.round(this.cooldownMs / 1000)}s.`;
+    logger.error(message);
+    void vscode.window
+      .showErrorMessage(`${EXT_DISPLAY_NAME}: ${message}`, RETRY, OPEN_LOGS)
+      .then((choice) => {
+        if (choice === RETRY) {
+          this.reset();
+        } else if (choice === OPEN_LOGS) {
+          showLogs();
+        }
+      });
+  }
+}
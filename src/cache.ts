@@ -0,0 +1,96 @@
+import * as vscode from "vscode";
+import { createHash } from "crypto";
+import { RateLimiter } from "limiter";
+import { LRUCache } from "lru-cache";
+import { logCacheStats } from "./instrumentation";
+
+/** Default maximum number of results kept per cache. */
+const DEFAULT_MAX_ENTRIES = 500;
+
+/** Inputs that fully determine the result of a keep-sorted invocation. */
+export interface ResultKey {
+  /** The document linted or fixed */
+  readonly uri: vscode.Uri;
+  /** The text of the document */
+  readonly text: string;
+  /** The version of the binary or engine producing the result */
+  readonly version: string;
+  /** The arguments passed to the binary */
+  readonly args: string[];
+}
+
+/**
+ * LRU cache of keep-sorted results keyed on the document content rather than its version, so open,
+ * save and change events for the same text don't run the binary again.
+ *
+ * Only successful results are cached. Clear it on configuration changes since those can change
+ * which binary runs and how.
+ */
+export class ResultCache<T> {
+  private readonly name: string;
+  // Wrapped since LRUCache can't store null results such as "nothing to fix"
+  private readonly cache: LRUCache<string, { value: T }>;
+  // Hit rates are logged at info level at most once a minute to avoid flooding the output
+  private readonly statsLimiter = new RateLimiter({ tokensPerInterval: 1, interval: "minute" });
+  private hits = 0;
+  private misses = 0;
+
+  constructor(name: string, max = DEFAULT_MAX_ENTRIES) {
+    this.name = name;
+    this.cache = new LRUCache<string, { value: T }>({ max });
+  }
+
+  /** Number of results currently cached. */
+  get size(): number {
+    return this.cache.size;
+  }
+
+  /** Fraction of lookups served from the cache since created or last cleared. */
+  get hitRate(): number {
+    const lookups = this.hits + this.misses;
+    return lookups === 0 ? 0 : this.hits / lookups;
+  }
+
+  /**
+   * Gets the cached result for the key, or creates and caches it if missing.
+   *
+   * @param key The inputs determining the result
+   * @param create Creates the result on a miss; failures are not cached
+   *
+   * @returns The cached or created result
+   */
+  async getOrCreate(key: ResultKey, create: () => Promise<T>): Promise<T> {
+    const cacheKey = toCacheKey(key);
+    const cached = this.cache.get(cacheKey);
+    if (cached) {
+      this.hits++;
+      this.logStats();
+      return cached.value;
+    }
+    this.misses++;
+    this.logStats();
+    const value = await create();
+    this.cache.set(cacheKey, { value });
+    return value;
+  }
+
+  /** Removes all results and resets the hit rate. */
+  clear(): void {
+    this.cache.clear();
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  private logStats(): void {
+    logCacheStats(
+      { name: this.name, hits: this.hits, misses: this.misses, size: this.cache.size },
+      this.statsLimiter.tryRemoveTokens(1)
+    );
+  }
+}
+
+/** Hashes the text so large documents aren't kept in memory as keys. */
+function toCacheKey(key: ResultKey): string {
+  const textHash = createHash("sha256").update(key.text).digest("hex");
+  return JSON.stringify([key.uri.toString(), textHash, key.version, key.args]);
+}
@@ -0,0 +1,81 @@
+import * as vscode from "vscode";
+import { FixBlockCommandHandler } from "./commands";
+import { getConfig } from "./configuration";
+import { blockRange, isDirectiveDiagnostic, misplacedLineCount } from "./diagnostics";
+import { DirectivePair, matchDirectives, parseDirectives } from "./directives";
+import { countItems } from "./engine";
+import { isInScope, plural } from "./workspace";
+
+/** Gets the title of the lens of an unsorted block. */
+function unsortedTitle(diagnostic: vscode.Diagnostic): string {
+  const count = misplacedLineCount(diagnostic);
+  if (count === 0) {
+    return "Sort block";
+  }
+  return `Sort block (${plural(count, "line")} out of order)`;
+}
+
+/** Gets the innermost block containing the line, so outer blocks don't claim nested findings. */
+function innermostPair(pairs: DirectivePair[], line: number): DirectivePair | undefined {
+  // Pairs are ordered by their start, so the last one containing the line is the innermost
+  return pairs.filter(({ start, end }) => start.line < line && line < end.line).pop();
+}
+
+/**
+ * Provides a lens above every keep-sorted block, sorting the block if it has a diagnostic or
+ * showing that it is sorted once the document has been linted.
+ */
+export class CodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+  private readonly diagnostics: vscode.DiagnosticCollection;
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  private readonly diagnosticsListener: vscode.Disposable;
+
+  readonly onDidChangeCodeLenses = this.changeEmitter.event;
+
+  constructor(diagnostics: vscode.DiagnosticCollection) {
+    this.diagnostics = diagnostics;
+    // Lenses show the state of the diagnostics, so refresh them whenever those change
+    this.diagnosticsListener = vscode.languages.onDidChangeDiagnostics(() =>
+      this.changeEmitter.fire()
+    );
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    const lines = document.getText().split(/\r?\n/);
+    const pairs = matchDirectives(parseDirectives(lines)).pairs;
+    const diagnostics = (this.diagnostics.get(document.uri) ?? []).filter(
+      (d) => !isDirectiveDiagnostic(d)
+    );
+    // Blocks without a diagnostic are only known to be sorted once the document has been linted
+    const linted = this.diagnostics.has(document.uri) && isInScope(document.uri);
+    return pairs.flatMap((pair) => {
+      const { start, end } = pair;
+      const range = new vscode.Range(start.line, 0, start.line, 0);
+      const diagnostic = diagnostics.find(
+        (d) => innermostPair(pairs, blockRange(d).start.line) === pair
+      );
+      if (diagnostic) {
+        return [
+          new vscode.CodeLens(range, {
+            title: unsortedTitle(diagnostic),
+            command: FixBlockCommandHandler.COMMAND.command,
+            tooltip: FixBlockCommandHandler.COMMAND.tooltip,
+            arguments: [document.uri, blockRange(diagnostic)],
+          }),
+        ];
+      }
+      if (!linted) {
+        return [];
+      }
+      const items = countItems(lines, start.line, end.line, getConfig().defaultOptions);
+      return [
+        new vscode.CodeLens(range, { title: `✓ sorted · ${plural(items, "item")}`, command: "" }),
+      ];
+    });
+  }
+
+  dispose(): void {
+    this.diagnosticsListener.dispose();
+    this.changeEmitter.dispose();
+  }
+}
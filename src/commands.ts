@@ -1,6 +1,11 @@
+import * as path from "path";
 import * as vscode from "vscode";
 import * as workspace from "./workspace";
-import { logAndGetError, logger } from "./instrumentation";
+import { blockRange, isDirectiveDiagnostic } from "./diagnostics";
+import { BlockNotFixableError, handleError, NothingToFixError, reactionTo } from "./errors";
+import { contextualizeLogger, EXT_DISPLAY_NAME, logger } from "./instrumentation";
+import { applyTextEdits, PreviewContentProvider } from "./preview";
+import { countRemovedLines, FileFailure, FileFix, showSummary, WorkspaceFixReport } from "./report";
 
 /** Command handler base class to register and provide execution of command */
 export abstract class CommandHandler {
@@ -9,6 +14,9 @@ export abstract class CommandHandler {
 
   public readonly command: vscode.Command;
 
+  // Cancelled when the command is invoked again before the previous invocation completes
+  private pending: vscode.CancellationTokenSource | undefined;
+
   constructor(
     command: vscode.Command,
     diagnostics: vscode.DiagnosticCollection,
@@ -19,19 +27,41 @@ export abstract class CommandHandler {
     this.diagnostics = diagnostics;
   }
 
-  protected abstract onHandle(): Promise<workspace.CreateEditResult[] | null>;
+  /**
+   * Creates the edits of the command.
+   *
+   * @param token Cancelled when the command is invoked again
+   * @param args The arguments the command was executed with, such as by a code lens
+   */
+  protected abstract onHandle(
+    token: vscode.CancellationToken,
+    ...args: unknown[]
+  ): Promise<workspace.CreateEditResult[] | null>;
+
+  /** Applies the edits of the command, clearing the diagnostics they fix. */
+  protected async apply(createResults: workspace.CreateEditResult[]): Promise<void> {
+    for (const createResult of createResults) {
+      this.diagnostics.delete(createResult.documentUri);
+      await vscode.workspace.applyEdit(createResult.edit);
+    }
+  }
 
-  async handle(): Promise<void> {
+  async handle(...args: unknown[]): Promise<void> {
+    this.pending?.cancel();
+    const tokenSource = new vscode.CancellationTokenSource();
+    this.pending = tokenSource;
     try {
-      const createResults = await this.onHandle();
-      if (createResults) {
-        for (const createResult of createResults) {
-          this.diagnostics.delete(createResult.documentUri);
-          await vscode.workspace.applyEdit(createResult.edit);
-        }
+      const createResults = await this.onHandle(tokenSource.token, ...args);
+      if (createResults && !tokenSource.token.isCancellationRequested) {
+        await this.apply(createResults);
       }
     } catch (err: Error | unknown) {
-      throw logAndGetError(logger, err);
+      handleError(err, logger);
+    } finally {
+      if (this.pending === tokenSource) {
+        this.pending = undefined;
+      }
+      tokenSource.dispose();
     }
   }
 }
@@ -46,13 +76,15 @@ export class FixFileCommandHandler extends CommandHandler {
   constructor(diagnostics: vscode.DiagnosticCollection, editFactory: workspace.EditFactory) {
     super(FixFileCommandHandler.COMMAND, diagnostics, editFactory);
   }
-  public async onHandle(): Promise<workspace.CreateEditResult[] | null> {
+  public async onHandle(
+    token: vscode.CancellationToken
+  ): Promise<workspace.CreateEditResult[] | null> {
     const editor = vscode.window.activeTextEditor;
     if (!editor) {
       logger.debug(`No active editor found for ${this.command.command} command.`);
       return null;
     }
-    const createResult = await this.editFactory.create(editor.document);
+    const createResult = await this.editFactory.create(editor.document, undefined, token);
     if (!createResult) {
       return null;
     }
@@ -63,6 +95,162 @@ export class FixFileCommandHandler extends CommandHandler {
   }
 }
 
+/** Handler for the "fix block" command to sort a single keep-sorted block, such as from its lens */
+export class FixBlockCommandHandler extends CommandHandler {
+  static readonly COMMAND = {
+    title: "Sort block (keep-sorted)",
+    command: "keep-sorted.fixBlock",
+    tooltip: "Sort the lines of this keep-sorted block",
+  };
+  constructor(diagnostics: vscode.DiagnosticCollection, editFactory: workspace.EditFactory) {
+    super(FixBlockCommandHandler.COMMAND, diagnostics, editFactory);
+  }
+
+  /**
+   * @param uri The document of the block
+   * @param range The range of the block, as covered by its diagnostic
+   */
+  public async onHandle(
+    token: vscode.CancellationToken,
+    uri: vscode.Uri,
+    range: vscode.Range
+  ): Promise<workspace.CreateEditResult[] | null> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const diagnostic = this.diagnostics
+      .get(uri)
+      ?.find((d) => !isDirectiveDiagnostic(d) && blockRange(d).isEqual(range));
+    if (!diagnostic) {
+      contextualizeLogger(document, range).debug(`No diagnostic found for block, nothing to sort.`);
+      return null;
+    }
+    let createResult: workspace.CreateEditResult;
+    try {
+      createResult = await this.editFactory.createForDiagnostic(document, diagnostic, token);
+    } catch (err: Error | unknown) {
+      // The code action shows why it is disabled instead, but the lens has nowhere else to show it
+      if (err instanceof BlockNotFixableError) {
+        void vscode.window.showInformationMessage(`${EXT_DISPLAY_NAME}: ${err.message}`);
+        return null;
+      }
+      throw err;
+    }
+    logger.debug(
+      () => `${this.command.command} create result:\n` + workspace.toLogText([createResult])
+    );
+    return [createResult];
+  }
+}
+
+/**
+ * Handler for the "preview fix" command to show the fix of a file in a diff before applying it,
+ * such as to review which lines `remove_duplicates` deletes
+ */
+export class PreviewFixCommandHandler extends CommandHandler {
+  static readonly COMMAND = {
+    title: "Preview sort of all lines in file (keep-sorted)",
+    command: "keep-sorted.previewFix",
+    tooltip: "Show the sorted file side by side before applying it",
+  };
+  static readonly APPLY = "Apply";
+  static readonly DISCARD = "Discard";
+
+  private readonly previewProvider: PreviewContentProvider;
+
+  constructor(
+    diagnostics: vscode.DiagnosticCollection,
+    editFactory: workspace.EditFactory,
+    previewProvider: PreviewContentProvider
+  ) {
+    super(PreviewFixCommandHandler.COMMAND, diagnostics, editFactory);
+    this.previewProvider = previewProvider;
+  }
+
+  /** @param uri The document to preview, such as from a code action, or else the active one */
+  public async onHandle(
+    token: vscode.CancellationToken,
+    uri?: vscode.Uri
+  ): Promise<workspace.CreateEditResult[] | null> {
+    const document = uri
+      ? await vscode.workspace.openTextDocument(uri)
+      : vscode.window.activeTextEditor?.document;
+    if (!document) {
+      logger.debug(`No active editor found for ${this.command.command} command.`);
+      return null;
+    }
+    const createResult = await this.editFactory.create(document, undefined, token);
+    if (!createResult) {
+      return null;
+    }
+
+    // Preview exactly the edits that are applied
+    const version = document.version;
+    const fixed = applyTextEdits(document, createResult.edit.get(document.uri));
+    const previewUri = this.previewProvider.show(document.uri, fixed);
+    const filename = path.basename(document.uri.path);
+    let choice: string | undefined;
+    try {
+      await vscode.commands.executeCommand(
+        "vscode.diff",
+        document.uri,
+        previewUri,
+        `${filename} ↔ Sorted (keep-sorted)`
+      );
+      choice = await vscode.window.showInformationMessage(
+        `Apply the keep-sorted fix to ${filename}?`,
+        PreviewFixCommandHandler.APPLY,
+        PreviewFixCommandHandler.DISCARD
+      );
+    } finally {
+      await closePreview(previewUri);
+      this.previewProvider.delete(previewUri);
+    }
+
+    if (choice !== PreviewFixCommandHandler.APPLY || token.isCancellationRequested) {
+      return null;
+    }
+    if (document.version !== version) {
+      void vscode.window.showWarningMessage(
+        `${filename} changed since the preview, so the fix wasn't applied. Preview it again.`
+      );
+      return null;
+    }
+    logger.debug(
+      () => `${this.command.command} create result:\n` + workspace.toLogText([createResult])
+    );
+    return [createResult];
+  }
+}
+
+/** Closes the diff editors showing a preview. */
+async function closePreview(previewUri: vscode.Uri): Promise<void> {
+  const tabs = vscode.window.tabGroups.all
+    .flatMap((group) => group.tabs)
+    .filter(
+      (tab) =>
+        tab.input instanceof vscode.TabInputTextDiff &&
+        tab.input.modified.toString() === previewUri.toString()
+    );
+  await vscode.window.tabGroups.close(tabs);
+}
+
+/** Share of the workspace fix progress taken by scanning the files, in percent. */
+const SCAN_PROGRESS = 50;
+
+/**
+ * Adds a file that couldn't be linted or fixed to the failures, unless it was cancelled or had
+ * nothing to fix. Files skipped by an open circuit or timing out are failures, since they weren't
+ * fixed.
+ */
+function recordFailure(failures: FileFailure[], uri: vscode.Uri, err: unknown): void {
+  if (err instanceof vscode.CancellationError || err instanceof NothingToFixError) {
+    contextualizeLogger(uri).debug(`Skipping file: ${err}`);
+    return;
+  }
+  const message = err instanceof Error ? err.message : String(err);
+  contextualizeLogger(uri).warn(`Unable to fix file: ${message}`);
+  failures.push({ uri, message });
+}
+
 /** Handler for the "fix workspace" command to sort all keep-sorted blocks in the workspace */
 export class FixWorkspaceCommandHandler extends CommandHandler {
   static readonly COMMAND = {
@@ -74,13 +262,111 @@ export class FixWorkspaceCommandHandler extends CommandHandler {
     super(FixWorkspaceCommandHandler.COMMAND, diagnostics, editFactory);
   }
 
-  public async onHandle(): Promise<workspace.CreateEditResult[] | null> {
+  /** Scanned files and fixes of the running command, reported once the fixes are applied. */
+  private report: Omit<WorkspaceFixReport, "applied"> | undefined;
+
+  public async onHandle(
+    token: vscode.CancellationToken
+  ): Promise<workspace.CreateEditResult[] | null> {
+    return vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Keep Sorted: Fixing workspace",
+        cancellable: true,
+      },
+      async (progress, progressToken) => {
+        // Cancelled by either invoking the command again or the notification's cancel button
+        const tokenSource = new vscode.CancellationTokenSource();
+        const listeners = [token, progressToken].map((t) =>
+          t.onCancellationRequested(() => tokenSource.cancel())
+        );
+        try {
+          return await this.fixWorkspace(progress, tokenSource.token);
+        } finally {
+          listeners.forEach((listener) => listener.dispose());
+          tokenSource.dispose();
+        }
+      }
+    );
+  }
+
+  private async fixWorkspace(
+    progress: vscode.Progress<{ message?: string; increment?: number }>,
+    token: vscode.CancellationToken
+  ): Promise<workspace.CreateEditResult[] | null> {
     const uris = await workspace.inScopeUris();
+    progress.report({ message: `Scanning ${uris.length} files...` });
+    // Scanning takes the first half of the progress and fixing the files with findings the rest
+    const scanIncrement = SCAN_PROGRESS / Math.max(uris.length, 1);
+    let scanned = 0;
+    // Only open the files with findings rather than every file in the workspace
+    const { fixable: fixableUris, failures: lintFailures } = await this.editFactory.lintFiles(
+      uris,
+      token,
+      (done) => {
+        progress.report({
+          increment: (done - scanned) * scanIncrement,
+          message: `Scanned ${done} of ${uris.length} files`,
+        });
+        scanned = done;
+      }
+    );
+
+    const fixes: FileFix[] = [];
+    const failures: FileFailure[] = [];
+    for (const { uri, error } of lintFailures) {
+      recordFailure(failures, uri, error);
+    }
+    let blocksSorted = 0;
+    let checked = 0;
+    const increment = (100 - SCAN_PROGRESS) / Math.max(fixableUris.length, 1);
     const allResults = await Promise.all(
-      uris.map(
-        async (uri) => await this.editFactory.create(await vscode.workspace.openTextDocument(uri))
-      )
+      fixableUris.map(async (uri) => {
+        try {
+          const document = await vscode.workspace.openTextDocument(uri);
+          const blocks = (this.diagnostics.get(uri) ?? []).filter(
+            (d) => !isDirectiveDiagnostic(d)
+          ).length;
+          const result = await this.editFactory.create(document, undefined, token);
+          if (result) {
+            const edits = result.edit.get(uri);
+            fixes.push({
+              uri,
+              blocksSorted: blocks,
+              duplicatesRemoved: countRemovedLines(document, edits),
+            });
+            blocksSorted += blocks;
+          }
+          return result;
+        } catch (err: Error | unknown) {
+          if (err instanceof vscode.CancellationError || reactionTo(err) === "disable") {
+            throw err;
+          }
+          // One file that can't be fixed shouldn't stop the rest of the workspace being fixed
+          recordFailure(failures, uri, err);
+          return null;
+        } finally {
+          checked++;
+          progress.report({
+            increment,
+            message:
+              `Fixing ${checked} of ${fixableUris.length} files with findings, ` +
+              `${blocksSorted} blocks sorted`,
+          });
+        }
+      })
     );
+    if (token.isCancellationRequested) {
+      throw new vscode.CancellationError();
+    }
+
+    const byPath = (a: { uri: vscode.Uri }, b: { uri: vscode.Uri }) =>
+      a.uri.fsPath.localeCompare(b.uri.fsPath);
+    this.report = {
+      filesScanned: uris.length,
+      fixes: fixes.sort(byPath),
+      failures: failures.sort(byPath),
+    };
     const createResults = allResults.filter((result) => result !== null);
     if (createResults.length > 0) {
       logger.debug(
@@ -88,6 +374,47 @@ export class FixWorkspaceCommandHandler extends CommandHandler {
       );
       return createResults;
     }
+    void showSummary({ ...this.report, applied: false });
     return null;
   }
+
+  /**
+   * Applies the edits of every file as a single edit that undoes in one step. Each file needs
+   * confirmation, so the refactor preview shows them grouped by workspace folder and files can be
+   * left out.
+   */
+  protected async apply(createResults: workspace.CreateEditResult[]): Promise<void> {
+    const merged = new vscode.WorkspaceEdit();
+    for (const createResult of createResults) {
+      for (const [uri, textEdits] of createResult.edit.entries()) {
+        const folder = vscode.workspace.getWorkspaceFolder(uri)?.name ?? "other files";
+        const metadata: vscode.WorkspaceEditEntryMetadata = {
+          label: `Sort keep-sorted blocks in ${folder}`,
+          description: vscode.workspace.asRelativePath(uri),
+          needsConfirmation: true,
+        };
+        for (const textEdit of textEdits) {
+          merged.replace(uri, textEdit.range, textEdit.newText, metadata);
+        }
+      }
+    }
+    logger.info(`Applying fixes to ${createResults.length} files after confirmation.`);
+    const applied = await vscode.workspace.applyEdit(merged);
+    if (applied) {
+      // Files left out of the preview are still unsorted, so their diagnostics aren't just cleared
+      await Promise.all(
+        createResults.map(async ({ documentUri }) => {
+          try {
+            const document = await vscode.workspace.openTextDocument(documentUri);
+            await this.editFactory.lint(document);
+          } catch (err: Error | unknown) {
+            handleError(err, contextualizeLogger(documentUri), documentUri);
+          }
+        })
+      );
+    }
+    if (this.report) {
+      void showSummary({ ...this.report, applied });
+    }
+  }
 }
@@ -0,0 +1,139 @@
+import * as vscode from "vscode";
+import {
+  BOOL_OPTIONS,
+  Directive,
+  END_DIRECTIVE,
+  matchDirectives,
+  OPTION_DOCS,
+  OPTION_NAMES,
+  parseDirective,
+  parseDirectives,
+  START_DIRECTIVE,
+} from "./directives";
+
+/** Options taking `yes` or `no`, besides the numbers `newline_separated` also takes. */
+const YES_NO_OPTIONS = [...BOOL_OPTIONS, "newline_separated"];
+
+/** Snippets of options that need a value typed rather than picked. */
+const OPTION_SNIPPETS: Readonly<Record<string, string>> = {
+  by_regex: "by_regex=${1:pattern}",
+  prefix_order: "prefix_order=${1:prefix},${2}",
+  skip_lines: "skip_lines=${1:1}",
+};
+
+/** Closes a comment the start directive is in, such as `-->` in HTML or `*\/` in C. */
+const COMMENT_SUFFIX = /\s*(-->|\*\/)\s*$/;
+
+/** Creates the completion of an option name, inserting a snippet for options typed by hand. */
+function optionItem(name: string): vscode.CompletionItem {
+  const doc = OPTION_DOCS[name];
+  const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Property);
+  item.detail = `Default: ${doc.default}`;
+  item.documentation = new vscode.MarkdownString(doc.description).appendCodeblock(doc.example);
+  const snippet = OPTION_SNIPPETS[name];
+  if (snippet) {
+    item.insertText = new vscode.SnippetString(snippet);
+  } else {
+    item.insertText = `${name}=`;
+    // Suggest the values right away
+    item.command = { title: "Suggest values", command: "editor.action.triggerSuggest" };
+  }
+  return item;
+}
+
+/** Creates the completions of the values of an option, if they can be picked. */
+function valueItems(key: string, range: vscode.Range): vscode.CompletionItem[] {
+  if (!YES_NO_OPTIONS.includes(key)) {
+    return [];
+  }
+  return ["yes", "no"].map((value) => {
+    const item = new vscode.CompletionItem(value, vscode.CompletionItemKind.EnumMember);
+    item.range = range;
+    return item;
+  });
+}
+
+/**
+ * Creates the completion of the end directive closing a start directive, using the comment style of
+ * the start directive's line.
+ */
+function endItem(startText: string, start: Directive, range: vscode.Range): vscode.CompletionItem {
+  const commentPrefix = startText.slice(0, start.column).trimStart();
+  const commentSuffix = startText.match(COMMENT_SUFFIX)?.[1];
+  const text = `${commentPrefix}${END_DIRECTIVE}${commentSuffix ? ` ${commentSuffix}` : ""}`;
+  const item = new vscode.CompletionItem(text, vscode.CompletionItemKind.Snippet);
+  item.detail = `Ends the block started on line ${start.line + 1}`;
+  item.range = range;
+  return item;
+}
+
+/**
+ * Completes the options of start directives, and the end directive of a block that isn't closed
+ * yet.
+ */
+export class CompletionProvider implements vscode.CompletionItemProvider {
+  static readonly triggerCharacters = [" ", "="];
+
+  provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    _token: vscode.CancellationToken,
+    context: vscode.CompletionContext
+  ): vscode.ProviderResult<vscode.CompletionItem[]> {
+    const text = document.lineAt(position.line).text;
+    const directive = parseDirective(text, position.line);
+    if (directive?.kind === "start") {
+      return this.optionItems(directive, position);
+    }
+    // The trigger characters are for options, so every space typed in a block isn't completed
+    if (
+      directive === undefined &&
+      context.triggerKind !== vscode.CompletionTriggerKind.TriggerCharacter
+    ) {
+      return this.endItems(document, text, position);
+    }
+    return [];
+  }
+
+  /** Completes the option name or value at the position of a start directive. */
+  private optionItems(directive: Directive, position: vscode.Position): vscode.CompletionItem[] {
+    if (position.character < directive.column + START_DIRECTIVE.length) {
+      return [];
+    }
+    const current = directive.options.find(
+      (o) => position.character > o.keyStart && position.character <= o.valueStart + o.value.length
+    );
+    if (current && position.character >= current.valueStart) {
+      return valueItems(
+        current.key,
+        new vscode.Range(position.line, current.valueStart, position.line, position.character)
+      );
+    }
+    const present = directive.options.filter((o) => o !== current).map((o) => o.key);
+    return OPTION_NAMES.filter((name) => !present.includes(name)).map(optionItem);
+  }
+
+  /** Completes the end directive of the innermost block above the position that isn't closed. */
+  private endItems(
+    document: vscode.TextDocument,
+    text: string,
+    position: vscode.Position
+  ): vscode.CompletionItem[] {
+    const lines = document.getText(new vscode.Range(0, 0, position.line, 0)).split(/\r?\n/);
+    const start = matchDirectives(parseDirectives(lines))
+      .unmatched.filter((d) => d.kind === "start")
+      .pop();
+    if (!start) {
+      return [];
+    }
+    // Replace what was typed of the end directive, keeping the line's indentation
+    const indent = text.length - text.trimStart().length;
+    const range = new vscode.Range(
+      position.line,
+      Math.min(indent, position.character),
+      position.line,
+      position.character
+    );
+    return [endItem(lines[start.line], start, range)];
+  }
+}
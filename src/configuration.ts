@@ -1,12 +1,33 @@
 import * as vscode from "vscode";
 import globRegex from "glob-regex";
 import * as path from "path";
-import { logger } from "./instrumentation";
+import { validateOptions } from "./directives";
+import { EXT_DISPLAY_NAME, logger } from "./instrumentation";
 import { toJson } from "./workspace";
 
 /** Configuration namespace for the Keep Sorted extension. */
 const CONFIGURATION_SECTION = "keep-sorted";
 
+/** Default maximum number of keep-sorted processes to run at the same time. */
+const DEFAULT_MAX_CONCURRENT_PROCESSES = 4;
+
+/** Default time in milliseconds a keep-sorted process may run before it is killed. */
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/** Diagnostic severities by their `keep-sorted.severity` setting value. */
+const SEVERITIES: Record<string, vscode.DiagnosticSeverity> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  information: vscode.DiagnosticSeverity.Information,
+  hint: vscode.DiagnosticSeverity.Hint,
+};
+
+/**
+ * Flags set by the extension itself for each invocation, so they can't be passed as extra args.
+ * Named without dashes since the binary accepts either one or two.
+ */
+const MANAGED_FLAGS = ["default-options", "lines", "mode", "version"];
+
 /** Configuration settings for the Keep Sorted extension. */
 export interface KeepSortedConfiguration {
   /** Whether the extension is enabled */
@@ -24,6 +45,39 @@ export interface KeepSortedConfiguration {
    * If specified, logs will be written to the specified location relative to workspace root.
    */
   readonly logFilepath?: string;
+
+  /**
+   * Optional. File path of the keep-sorted binary to run instead of the bundled one
+   *
+   * If specified, relative paths are resolved against the workspace root.
+   */
+  readonly binaryPath?: string;
+
+  /**
+   * Whether a binary from `binaryPath` or the environment may run without a `.sha256` manifest to
+   * verify it against
+   */
+  readonly allowUnverifiedBinary: boolean;
+
+  /** Maximum number of keep-sorted processes to run at the same time */
+  readonly maxConcurrentProcesses: number;
+
+  /** Time in milliseconds a keep-sorted process may run before it is killed, or 0 to never kill */
+  readonly timeoutMs: number;
+
+  /**
+   * Options applied to every block unless overridden by its start directive, such as `case=no`
+   *
+   * Empty if not set or invalid.
+   */
+  readonly defaultOptions: string;
+
+  /**
+   * Additional flags passed to every keep-sorted invocation, such as `--id=keep-sorted`
+   *
+   * Empty if not set or invalid.
+   */
+  readonly extraArgs: string[];
 }
 
 interface Context {
@@ -31,6 +85,9 @@ interface Context {
   regexs: RegExp[];
 }
 
+/** Whether the extension was disabled after an unrecoverable failure, until the window reloads. */
+let disabledForSession = false;
+
 /** The internal current Keep Sorted configuration with runtime objects as a mutable object. */
 let context = loadContext();
 
@@ -53,9 +110,18 @@ export function getConfig() {
 function loadContext(): Context {
   const config = vscode.workspace.getConfiguration(CONFIGURATION_SECTION);
   const configuration: KeepSortedConfiguration = {
-    enabled: config.get<boolean>("enabled", true),
+    enabled: !disabledForSession && config.get<boolean>("enabled", true),
     exclude: config.get<string[]>("exclude", []),
     logFilepath: config.get<string | undefined>("logFilepath", undefined),
+    binaryPath: config.get<string | undefined>("binaryPath", undefined),
+    allowUnverifiedBinary: config.get<boolean>("allowUnverifiedBinary", false),
+    maxConcurrentProcesses: Math.max(
+      1,
+      Math.floor(config.get<number>("maxConcurrentProcesses", DEFAULT_MAX_CONCURRENT_PROCESSES))
+    ),
+    timeoutMs: Math.max(0, config.get<number>("timeoutMs", DEFAULT_TIMEOUT_MS)),
+    defaultOptions: validDefaultOptions(config.get<string>("defaultOptions") ?? ""),
+    extraArgs: validExtraArgs(config.get<string[]>("extraArgs") ?? []),
   };
 
   // Use console during module loading to avoid circular dependency
@@ -74,6 +140,46 @@ function loadContext(): Context {
   return { config: configuration, regexs };
 }
 
+/** Gets the default options if all are valid, otherwise warns and ignores them. */
+function validDefaultOptions(defaultOptions: string): string {
+  const errors = validateOptions(defaultOptions);
+  if (errors.length > 0) {
+    warnInvalidSetting("defaultOptions", errors);
+    return "";
+  }
+  return defaultOptions.trim();
+}
+
+/**
+ * Gets the extra arguments if all are valid, otherwise warns and ignores them.
+ *
+ * Only flags are accepted since anything else would be read as a file to process, and values must
+ * be given as `--flag=value` for the same reason.
+ */
+function validExtraArgs(extraArgs: string[]): string[] {
+  const errors = extraArgs.flatMap((arg) => {
+    const flag = arg.split("=")[0];
+    if (!arg.startsWith("-") || arg === "-") {
+      return [`"${arg}" is not a flag, pass values as --flag=value`];
+    }
+    if (MANAGED_FLAGS.includes(flag.replace(/^-+/, ""))) {
+      return [`${flag} is set by the extension`];
+    }
+    return [];
+  });
+  if (errors.length > 0) {
+    warnInvalidSetting("extraArgs", errors);
+    return [];
+  }
+  return extraArgs;
+}
+
+function warnInvalidSetting(name: string, errors: string[]): void {
+  const message = `Ignoring invalid ${CONFIGURATION_SECTION}.${name} setting: ${errors.join("; ")}`;
+  logger.warn(message);
+  void vscode.window.showWarningMessage(`${EXT_DISPLAY_NAME}: ${message}`);
+}
+
 /**
  * Determines if the file is excluded from processing and returns the regexp matched or null if not
  * match is found.
@@ -91,6 +197,65 @@ export function excluded(uri: vscode.Uri): RegExp | null {
   return null;
 }
 
+/**
+ * Gets the severity of diagnostics for the file from the `keep-sorted.severity` setting.
+ *
+ * Unlike the rest of the configuration, the setting can differ per folder and language so it is
+ * read for each file rather than loaded once.
+ *
+ * @param uri The file the diagnostics are for
+ * @param languageId The language of the file, if known, to apply language specific settings
+ *
+ * @returns The configured severity, or warning if not set or invalid
+ */
+export function getSeverity(uri: vscode.Uri, languageId?: string): vscode.DiagnosticSeverity {
+  const config = vscode.workspace.getConfiguration(
+    CONFIGURATION_SECTION,
+    languageId ? { uri, languageId } : uri
+  );
+  const severity = config.get<string>("severity", "warning");
+  return SEVERITIES[severity] ?? vscode.DiagnosticSeverity.Warning;
+}
+
+/**
+ * Adds the file to the `keep-sorted.exclude` setting of the workspace, or the user settings if no
+ * workspace is open.
+ *
+ * @param uri The file to exclude
+ */
+export async function excludeFile(uri: vscode.Uri): Promise<void> {
+  const config = vscode.workspace.getConfiguration(CONFIGURATION_SECTION, uri);
+  const relativePath = vscode.workspace.asRelativePath(uri);
+  // Anchored and escaped so only this exact file is matched
+  const pattern = `^${relativePath.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}$`;
+  const exclude = config.get<string[]>("exclude", []);
+  if (exclude.includes(pattern)) {
+    return;
+  }
+  const target = vscode.workspace.workspaceFolders
+    ? vscode.ConfigurationTarget.Workspace
+    : vscode.ConfigurationTarget.Global;
+  logger.info(`Excluding ${relativePath} with pattern ${pattern}.`);
+  await config.update("exclude", [...exclude, pattern], target);
+}
+
+/**
+ * Disables the extension for the rest of the session regardless of the `keep-sorted.enabled`
+ * setting, such as when the binary can never be run.
+ */
+export function disableForSession(): void {
+  if (disabledForSession) {
+    return;
+  }
+  logger.warn("Disabling extension until the window is reloaded.");
+  disabledForSession = true;
+  const previousEnabled = context.config.enabled;
+  context = loadContext();
+  if (previousEnabled) {
+    onEnabledChangeEmitter.fire(false);
+  }
+}
+
 /**
  * Event handler for configuration changes and reloads this specific configuration if changed from
  * the serialized form.
@@ -104,12 +269,16 @@ export function handleConfigurationChange(event: vscode.ConfigurationChangeEvent
     const previousEnabled = context.config.enabled;
     const previousLogFilepath = context.config.logFilepath;
     context = loadContext();
+    onConfigurationReloadEmitter.fire(context.config);
     if (context.config.enabled !== previousEnabled) {
       onEnabledChangeEmitter.fire(context.config.enabled);
     }
     if (context.config.logFilepath !== previousLogFilepath) {
       onLogFilepathChangeEmitter.fire(context.config.logFilepath);
     }
+    if (event.affectsConfiguration(`${CONFIGURATION_SECTION}.severity`)) {
+      onSeverityChangeEmitter.fire();
+    }
     return true;
   }
   return false;
@@ -125,3 +294,14 @@ const onLogFilepathChangeEmitter = new vscode.EventEmitter<string | undefined>()
 /** Event triggered when the log filepath changes. */
 export const onLogFilepathChange: vscode.Event<string | undefined> =
   onLogFilepathChangeEmitter.event;
+
+const onSeverityChangeEmitter = new vscode.EventEmitter<void>();
+
+/** Event triggered when the diagnostic severity changes for any folder or language. */
+export const onSeverityChange: vscode.Event<void> = onSeverityChangeEmitter.event;
+
+const onConfigurationReloadEmitter = new vscode.EventEmitter<KeepSortedConfiguration>();
+
+/** Event triggered whenever the configuration is reloaded after any of its settings change. */
+export const onConfigurationReload: vscode.Event<KeepSortedConfiguration> =
+  onConfigurationReloadEmitter.event;
@@ -0,0 +1,222 @@
+import * as vscode from "vscode";
+import type { DirectiveProblem } from "./directives";
+import type { LineRange } from "./engine";
+import { EXT_NAME } from "./instrumentation";
+import type { KeepSortedFinding, KeepSortedReplacement } from "./keepsorted";
+
+/** Message of the related information spanning the whole block of a diagnostic. */
+const BLOCK_MESSAGE = "Unsorted keep-sorted block";
+
+/** Code of diagnostics for directive syntax problems rather than unsorted blocks. */
+export const DIRECTIVE_CODE = "directive";
+
+/** Maximum number of misplaced lines listed as related information of a diagnostic. */
+const MAX_MISPLACED_LINES = 20;
+
+/** Message of the related information counting the misplaced lines beyond those listed. */
+const UNLISTED_MESSAGE = /^(\d+) more lines? out of order$/;
+
+/** A line that is somewhere else in the sorted block. */
+export interface MisplacedLine {
+  /** Zero-based document line it is currently on */
+  readonly line: number;
+  /** Where it belongs relative to the lines around its sorted position */
+  readonly message: string;
+}
+
+/** Converts one-based inclusive lines from the binary to a whole line document range. */
+export function toDocumentRange(lines: LineRange): vscode.Range {
+  // Range is zero-based and end exclusive while keep-sorted lines are one-based and inclusive
+  return new vscode.Range(lines.start - 1, 0, lines.end, 0);
+}
+
+/** Splits text into lines without their line endings. */
+function splitLines(text: string): string[] {
+  const lines = text.split(/\r?\n/);
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Gets the indices of a longest strictly increasing subsequence of the values.
+ *
+ * Uses patience sorting, so runs in O(n log n) for large blocks.
+ */
+function longestIncreasing(values: number[]): Set<number> {
+  // Index of the smallest tail value of the increasing subsequences of each length
+  const tails: number[] = [];
+  const previous: number[] = [];
+  values.forEach((value, i) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (values[tails[mid]] < value) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    previous[i] = low > 0 ? tails[low - 1] : -1;
+    tails[low] = i;
+  });
+  const indices = new Set<number>();
+  for (let i = tails.length > 0 ? tails[tails.length - 1] : -1; i !== -1; i = previous[i]) {
+    indices.add(i);
+  }
+  return indices;
+}
+
+/**
+ * Finds the lines a replacement moves by comparing the block's current lines with the replacement
+ * content.
+ *
+ * The fewest lines that need to move are reported, so a single line out of place doesn't mark every
+ * line after it. Lines whose text is changed rather than moved, such as by a moved trailing comma,
+ * can't be matched so are left out.
+ *
+ * @param documentLines The lines of the document the replacement is for
+ * @param replacement The replacement sorting the block
+ *
+ * @returns The misplaced lines in document order
+ */
+export function findMisplacedLines(
+  documentLines: string[],
+  replacement: KeepSortedReplacement
+): MisplacedLine[] {
+  const start = replacement.lines.start - 1;
+  const current = documentLines.slice(start, replacement.lines.end);
+  const sorted = splitLines(replacement.new_content);
+  // Document lines of each text in order, so duplicates map to distinct lines
+  const linesByText = new Map<string, number[]>();
+  current.forEach((text, i) => {
+    const lines = linesByText.get(text) ?? [];
+    lines.push(start + i);
+    linesByText.set(text, lines);
+  });
+  // Current document line of each sorted line
+  const sortedLines = sorted.map((text) => linesByText.get(text)?.shift());
+
+  // Lines already in sorted order relative to each other stay, all others move
+  const matched = sortedLines.flatMap((line, i) => (line === undefined ? [] : [i]));
+  const staying = longestIncreasing(matched.map((i) => sortedLines[i]!));
+  const misplaced: MisplacedLine[] = [];
+  matched.forEach((i, j) => {
+    if (staying.has(j)) {
+      return;
+    }
+    const line = sortedLines[i]!;
+    const previous = i > 0 ? sortedLines[i - 1] : undefined;
+    const next = i < sorted.length - 1 ? sortedLines[i + 1] : undefined;
+    if (previous !== undefined) {
+      misplaced.push({ line, message: `should come after line ${previous + 1}` });
+    } else if (next !== undefined) {
+      misplaced.push({ line, message: `should come before line ${next + 1}` });
+    }
+  });
+  return misplaced.sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Converts a finding to a diagnostic on the first misplaced line of its block, with where each
+ * misplaced line belongs as related information.
+ *
+ * The whole block is always the first related information, see {@link blockRange}. Findings without
+ * a fix, such as an unmatched directive, cover their whole lines.
+ *
+ * @param uri The document the finding is for
+ * @param documentLines The lines of the document, or empty if unknown
+ * @param finding The finding reported by the binary
+ * @param severity The severity of the diagnostic
+ */
+export function toDiagnostic(
+  uri: vscode.Uri,
+  documentLines: string[],
+  finding: KeepSortedFinding,
+  severity: vscode.DiagnosticSeverity
+): vscode.Diagnostic {
+  const range = toDocumentRange(finding.lines);
+  const misplaced = finding.fixes
+    .flatMap((fix) => fix.replacements)
+    .flatMap((replacement) => findMisplacedLines(documentLines, replacement))
+    .sort((a, b) => a.line - b.line);
+  const lineRange = (line: number) => new vscode.Range(line, 0, line, documentLines[line].length);
+
+  const diagnostic = new vscode.Diagnostic(
+    misplaced.length > 0 ? lineRange(misplaced[0].line) : range,
+    finding.message,
+    severity
+  );
+  diagnostic.source = EXT_NAME;
+  diagnostic.code = {
+    value: "help",
+    target: vscode.Uri.parse("https://github.com/google/keep-sorted/blob/main/README.md"),
+  };
+  diagnostic.relatedInformation = [
+    new vscode.DiagnosticRelatedInformation(new vscode.Location(uri, range), BLOCK_MESSAGE),
+    ...misplaced
+      .slice(0, MAX_MISPLACED_LINES)
+      .map(
+        (m) =>
+          new vscode.DiagnosticRelatedInformation(
+            new vscode.Location(uri, lineRange(m.line)),
+            m.message
+          )
+      ),
+  ];
+  const unlisted = misplaced.length - MAX_MISPLACED_LINES;
+  if (unlisted > 0) {
+    diagnostic.relatedInformation.push(
+      new vscode.DiagnosticRelatedInformation(
+        new vscode.Location(uri, range),
+        `${unlisted} more ${unlisted === 1 ? "line" : "lines"} out of order`
+      )
+    );
+  }
+  return diagnostic;
+}
+
+/**
+ * Gets the range of the whole block of a diagnostic, which may be narrowed to its first misplaced
+ * line.
+ */
+export function blockRange(diagnostic: vscode.Diagnostic): vscode.Range {
+  const block = diagnostic.relatedInformation?.find((info) => info.message === BLOCK_MESSAGE);
+  return block?.location.range ?? diagnostic.range;
+}
+
+/** Gets the number of misplaced lines of a diagnostic, including those beyond the ones listed. */
+export function misplacedLineCount(diagnostic: vscode.Diagnostic): number {
+  return (diagnostic.relatedInformation ?? [])
+    .filter((info) => info.message !== BLOCK_MESSAGE)
+    .reduce((count, info) => count + Number(UNLISTED_MESSAGE.exec(info.message)?.[1] ?? 1), 0);
+}
+
+/**
+ * Converts a directive problem to a diagnostic on the token causing it, linking to the documented
+ * options.
+ */
+export function toDirectiveDiagnostic(
+  uri: vscode.Uri,
+  problem: DirectiveProblem,
+  severity: vscode.DiagnosticSeverity
+): vscode.Diagnostic {
+  const diagnostic = new vscode.Diagnostic(
+    new vscode.Range(problem.line, problem.start, problem.line, problem.end),
+    problem.message,
+    severity
+  );
+  diagnostic.source = EXT_NAME;
+  diagnostic.code = {
+    value: DIRECTIVE_CODE,
+    target: vscode.Uri.parse("https://github.com/google/keep-sorted?tab=readme-ov-file#options"),
+  };
+  return diagnostic;
+}
+
+/** Whether the diagnostic is for a directive syntax problem, which has no block to sort. */
+export function isDirectiveDiagnostic(diagnostic: vscode.Diagnostic): boolean {
+  return typeof diagnostic.code === "object" && diagnostic.code.value === DIRECTIVE_CODE;
+}
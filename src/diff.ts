@@ -0,0 +1,139 @@
+/**
+ * Line diffing to turn whole-text fixes into minimal edits.
+ *
+ * Kept free of VS Code imports so it can be unit tested without the extension host.
+ */
+
+/** Contiguous lines of the original text replaced by lines of the modified text. */
+export interface Hunk {
+  /** Zero-based index of the first original line replaced */
+  readonly start: number;
+  /** Zero-based index after the last original line replaced, equal to start for insertions */
+  readonly end: number;
+  /** Modified lines replacing the original lines, including their line endings */
+  readonly lines: string[];
+}
+
+/** Splits the text into lines, keeping each line's ending so hunks join back losslessly. */
+export function splitLines(text: string): string[] {
+  return text === "" ? [] : text.split(/(?<=\n)/);
+}
+
+/**
+ * Diffs the original and modified text line by line using the Myers algorithm.
+ *
+ * @returns The hunks that transform the original into the modified text, in order
+ */
+export function diffText(original: string, modified: string): Hunk[] {
+  return diffLines(splitLines(original), splitLines(modified));
+}
+
+/**
+ * Diffs the original and modified lines using the Myers algorithm.
+ *
+ * @returns The hunks that transform the original into the modified lines, in order
+ */
+export function diffLines(original: string[], modified: string[]): Hunk[] {
+  // Trim the common prefix and suffix since fixes usually only touch a few blocks
+  let prefix = 0;
+  while (
+    prefix < original.length &&
+    prefix < modified.length &&
+    original[prefix] === modified[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < original.length - prefix &&
+    suffix < modified.length - prefix &&
+    original[original.length - 1 - suffix] === modified[modified.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+  const a = original.slice(prefix, original.length - suffix);
+  const b = modified.slice(prefix, modified.length - suffix);
+
+  const hunks: Hunk[] = [];
+  let current: { start: number; end: number; lines: string[] } | null = null;
+  for (const op of editScript(a, b)) {
+    if (op.kind === "keep") {
+      if (current) {
+        hunks.push(current);
+        current = null;
+      }
+      continue;
+    }
+    current ??= { start: prefix + op.aIndex, end: prefix + op.aIndex, lines: [] };
+    if (op.kind === "delete") {
+      current.end++;
+    } else {
+      current.lines.push(b[op.bIndex]);
+    }
+  }
+  if (current) {
+    hunks.push(current);
+  }
+  return hunks;
+}
+
+interface EditOp {
+  readonly kind: "keep" | "delete" | "insert";
+  readonly aIndex: number;
+  readonly bIndex: number;
+}
+
+/** Gets the shortest edit script between the lines. */
+function editScript(a: string[], b: string[]): EditOp[] {
+  const max = a.length + b.length;
+  const offset = max + 1;
+  const v = new Array<number>(2 * max + 2).fill(0);
+  const trace: number[][] = [];
+
+  // Forward pass, recording the furthest reaching x per diagonal k for every edit distance d
+  search: for (let d = 0; d <= max; d++) {
+    trace.push([...v]);
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= a.length && y >= b.length) {
+        break search;
+      }
+    }
+  }
+
+  // Backtrack from the end to recover the operations
+  const ops: EditOp[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const vd = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = vd[offset + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      x--;
+      y--;
+      ops.push({ kind: "keep", aIndex: x, bIndex: y });
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        ops.push({ kind: "insert", aIndex: x, bIndex: prevY });
+      } else {
+        ops.push({ kind: "delete", aIndex: prevX, bIndex: y });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return ops.reverse();
+}
@@ -0,0 +1,418 @@
+/**
+ * Parser of keep-sorted directives that keeps the position of every token, so problems can be
+ * reported on the exact option rather than the whole line.
+ *
+ * The binary silently ignores unknown options and invalid values, so typos such as `numberic=yes`
+ * otherwise go unnoticed.
+ */
+
+import { re2Error } from "./re2";
+
+export const START_DIRECTIVE = "keep-sorted start";
+export const END_DIRECTIVE = "keep-sorted end";
+
+/** Names of the options accepted by a start directive or as default options. */
+export const OPTION_NAMES = [
+  "block",
+  "by_regex",
+  "case",
+  "group",
+  "group_prefixes",
+  "ignore_prefixes",
+  "newline_separated",
+  "numeric",
+  "prefix_order",
+  "remove_duplicates",
+  "skip_lines",
+  "sticky_comments",
+  "sticky_prefixes",
+];
+
+/** Documentation of an option, shown when hovering or completing it. */
+export interface OptionDoc {
+  readonly description: string;
+  /** Value used when the option isn't set */
+  readonly default: string;
+  /** A start directive using the option */
+  readonly example: string;
+}
+
+/** Documentation of every option in {@link OPTION_NAMES}. */
+export const OPTION_DOCS: Readonly<Record<string, OptionDoc>> = {
+  block: {
+    description:
+      "Sorts multi-line blocks, keeping lines inside brackets and quotes with the line opening them.",
+    default: "no",
+    example: "// keep-sorted start block=yes",
+  },
+  by_regex: {
+    description:
+      "Sorts by the text matched by the first of these regular expressions that matches a line, " +
+      "instead of the whole line.",
+    default: "the whole line",
+    example: "// keep-sorted start by_regex=\\w+;",
+  },
+  case: {
+    description: "Whether sorting is case sensitive, with uppercase before lowercase.",
+    default: "yes",
+    example: "// keep-sorted start case=no",
+  },
+  group: {
+    description:
+      "Whether lines indented further than the first line move with the line above them.",
+    default: "yes",
+    example: "// keep-sorted start group=no",
+  },
+  group_prefixes: {
+    description: "Lines starting with any of these prefixes move with the line above them.",
+    default: "none",
+    example: "<!-- keep-sorted start group_prefixes=and,with -->",
+  },
+  ignore_prefixes: {
+    description: "Prefixes skipped when comparing lines, such as declaration keywords.",
+    default: "none",
+    example: "// keep-sorted start ignore_prefixes=const,let,var",
+  },
+  newline_separated: {
+    description: "Separates sorted items by a blank line, or the given number of blank lines.",
+    default: "no",
+    example: "# keep-sorted start newline_separated=yes",
+  },
+  numeric: {
+    description: "Compares numbers in lines by their value, so 2 comes before 10.",
+    default: "no",
+    example: "# keep-sorted start numeric=yes",
+  },
+  prefix_order: {
+    description:
+      "Orders lines by which of these prefixes they start with. An empty prefix stands for lines " +
+      "starting with none of them.",
+    default: "none",
+    example: "// keep-sorted start prefix_order=INIT_,,FINAL_",
+  },
+  remove_duplicates: {
+    description: "Whether duplicate lines are removed.",
+    default: "yes",
+    example: "# keep-sorted start remove_duplicates=no",
+  },
+  skip_lines: {
+    description: "Number of lines after the start directive left in place, such as table headers.",
+    default: "0",
+    example: "<!-- keep-sorted start skip_lines=2 -->",
+  },
+  sticky_comments: {
+    description: "Whether comments move with the line below them.",
+    default: "yes",
+    example: "# keep-sorted start sticky_comments=no",
+  },
+  sticky_prefixes: {
+    description: "Lines starting with any of these prefixes move with the line below them.",
+    default: "the comment marker of the start directive",
+    example: "// keep-sorted start sticky_prefixes=@",
+  },
+};
+
+/** Options taking `yes` or `no`. */
+export const BOOL_OPTIONS = [
+  "block",
+  "case",
+  "group",
+  "numeric",
+  "remove_duplicates",
+  "sticky_comments",
+];
+
+/** A quoted list item, which may contain spaces, commas and brackets. */
+const QUOTED_ITEM = /'(?:[^']|'')*'|"(?:[^"\\]|\\.)*"/;
+
+/**
+ * A `key=value` option, where a list value in brackets may contain spaces, and brackets within
+ * quoted items, such as `by_regex=['[a-z]+']`.
+ */
+const OPTION_TOKEN = new RegExp(
+  String.raw`(?<=^|\s)([^\s=]+)=(\[(?:${QUOTED_ITEM.source}|[^\]'"])*\]|\S*)`,
+  "g"
+);
+
+/** Maximum edit distance of an unknown option from a known one to suggest it. */
+const MAX_SUGGESTION_DISTANCE = 2;
+
+/** A `key=value` option of a start directive. */
+export interface OptionToken {
+  readonly key: string;
+  readonly value: string;
+  /** Zero-based column of the key */
+  readonly keyStart: number;
+  /** Zero-based column of the value */
+  readonly valueStart: number;
+}
+
+/** A start or end directive. */
+export interface Directive {
+  readonly kind: "start" | "end";
+  /** Zero-based line of the directive */
+  readonly line: number;
+  /** Zero-based column of the directive text, such as `keep-sorted start` */
+  readonly column: number;
+  /** Options of a start directive, empty for end directives */
+  readonly options: OptionToken[];
+}
+
+/** A start directive and the end directive closing it. */
+export interface DirectivePair {
+  readonly start: Directive;
+  readonly end: Directive;
+}
+
+/** A problem with a directive, located at the token causing it. */
+export interface DirectiveProblem {
+  /** Zero-based line of the directive */
+  readonly line: number;
+  /** Zero-based column where the token starts */
+  readonly start: number;
+  /** Zero-based column where the token ends, exclusive */
+  readonly end: number;
+  readonly message: string;
+}
+
+/** Parses a boolean option value, or undefined if it isn't one. */
+export function parseBool(value: string): boolean | undefined {
+  switch (value) {
+    case "yes":
+      return true;
+    case "no":
+      return false;
+    default:
+      return undefined;
+  }
+}
+
+/** Parses a list value, either comma separated or as a YAML flow list like `['a', "b"]`. */
+export function parseList(value: string): string[] {
+  if (!value.startsWith("[") || !value.endsWith("]")) {
+    return value.split(",");
+  }
+  const items = value.slice(1, -1).match(new RegExp(`${QUOTED_ITEM.source}|[^,]+`, "g"));
+  return (items ?? [])
+    .map((item) => item.trim())
+    .filter((item) => item !== "")
+    .map((item) => {
+      if (item.startsWith("'") && item.endsWith("'")) {
+        return item.slice(1, -1).replace(/''/g, "'");
+      }
+      if (item.startsWith('"') && item.endsWith('"')) {
+        return item.slice(1, -1).replace(/\\(.)/g, "$1");
+      }
+      return item;
+    });
+}
+
+/**
+ * Splits option text into its `key=value` tokens.
+ *
+ * Words without `=`, such as the `-->` closing an HTML comment, aren't options so are skipped.
+ *
+ * @param text The option text
+ * @param offset Column of the text in its line, added to the token columns
+ */
+export function tokenizeOptions(text: string, offset = 0): OptionToken[] {
+  return [...text.matchAll(OPTION_TOKEN)].map((match) => {
+    const [token, key, value] = match;
+    const keyStart = offset + match.index;
+    return { key, value, keyStart, valueStart: keyStart + token.length - value.length };
+  });
+}
+
+/**
+ * Parses a directive line.
+ *
+ * @param text The text of the line
+ * @param line The zero-based line number
+ *
+ * @returns The directive, or undefined if the line doesn't have one
+ */
+export function parseDirective(text: string, line: number): Directive | undefined {
+  const start = text.indexOf(START_DIRECTIVE);
+  if (start !== -1) {
+    const optionsStart = start + START_DIRECTIVE.length;
+    return {
+      kind: "start",
+      line,
+      column: start,
+      options: tokenizeOptions(text.slice(optionsStart), optionsStart),
+    };
+  }
+  const end = text.indexOf(END_DIRECTIVE);
+  if (end !== -1) {
+    return { kind: "end", line, column: end, options: [] };
+  }
+  return undefined;
+}
+
+/**
+ * Matches start and end directives, allowing nested blocks.
+ *
+ * @returns The matched pairs ordered by their start, and the directives without a match
+ */
+export function matchDirectives(directives: Directive[]): {
+  pairs: DirectivePair[];
+  unmatched: Directive[];
+} {
+  const pairs: DirectivePair[] = [];
+  const unmatched: Directive[] = [];
+  const starts: Directive[] = [];
+  for (const directive of directives) {
+    if (directive.kind === "start") {
+      starts.push(directive);
+      continue;
+    }
+    const start = starts.pop();
+    if (start === undefined) {
+      unmatched.push(directive);
+    } else {
+      pairs.push({ start, end: directive });
+    }
+  }
+  unmatched.push(...starts);
+  return { pairs: pairs.sort((a, b) => a.start.line - b.start.line), unmatched };
+}
+
+/** Parses the directives of every line. */
+export function parseDirectives(lines: string[]): Directive[] {
+  return lines.flatMap((text, i) => parseDirective(text, i) ?? []);
+}
+
+/** Gets the number of single character edits to change one text into the other. */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Gets the known option closest to an unknown one, if any is close enough to be a typo. */
+function suggestOption(key: string): string | undefined {
+  let suggestion: string | undefined;
+  let distance = MAX_SUGGESTION_DISTANCE + 1;
+  for (const name of OPTION_NAMES) {
+    const nameDistance = editDistance(key.toLowerCase(), name);
+    if (nameDistance < distance) {
+      suggestion = name;
+      distance = nameDistance;
+    }
+  }
+  return suggestion;
+}
+
+/** Describes what is wrong with the option's key, or undefined if it is a known option. */
+function keyError(key: string): string | undefined {
+  if (OPTION_NAMES.includes(key)) {
+    return undefined;
+  }
+  const suggestion = suggestOption(key);
+  return suggestion
+    ? `Unknown option "${key}", did you mean "${suggestion}"?`
+    : `Unknown option "${key}"`;
+}
+
+/** Describes what is wrong with the value of a known option, or undefined if it is valid. */
+function valueError(key: string, value: string): string | undefined {
+  if (BOOL_OPTIONS.includes(key) && parseBool(value) === undefined) {
+    return `Invalid value "${value}" for ${key}, expected yes or no`;
+  }
+  if (key === "newline_separated" && parseBool(value) === undefined && !/^\d+$/.test(value)) {
+    return `Invalid value "${value}" for ${key}, expected yes, no or a number`;
+  }
+  if (key === "skip_lines" && !/^\d+$/.test(value)) {
+    return `Invalid value "${value}" for ${key}, expected a number of lines`;
+  }
+  if (key === "by_regex") {
+    for (const pattern of parseList(value)) {
+      const error = re2Error(pattern);
+      if (error) {
+        return `Invalid regular expression "${pattern}" for ${key}: ${error}`;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Validates `key=value` option text, such as default options from the settings.
+ *
+ * Unlike directives, the text can't contain anything but options, so words without `=` are reported
+ * too.
+ *
+ * @returns A description of every malformed option, unknown option and invalid value, or empty if
+ *   all are valid
+ */
+export function validateOptions(text: string): string[] {
+  // Options are removed first so words of list values aren't taken for malformed options
+  const malformed = text
+    .replace(OPTION_TOKEN, " ")
+    .split(/\s+/)
+    .filter((word) => word !== "" && !word.includes("="))
+    .map((word) => `Expected key=value but got "${word}"`);
+  const invalid = tokenizeOptions(text).flatMap(
+    ({ key, value }) => keyError(key) ?? valueError(key, value) ?? []
+  );
+  return [...malformed, ...invalid];
+}
+
+/**
+ * Finds the problems of every directive: unknown options, invalid values and directives without a
+ * matching start or end.
+ *
+ * @param lines The lines of the document
+ *
+ * @returns The problems in document order
+ */
+export function findDirectiveProblems(lines: string[]): DirectiveProblem[] {
+  const directives = parseDirectives(lines);
+  const problems: DirectiveProblem[] = directives.flatMap((directive) =>
+    directive.options.flatMap(({ key, value, keyStart, valueStart }) => {
+      const keyMessage = keyError(key);
+      if (keyMessage) {
+        return [
+          {
+            line: directive.line,
+            start: keyStart,
+            end: keyStart + key.length,
+            message: keyMessage,
+          },
+        ];
+      }
+      const valueMessage = valueError(key, value);
+      if (valueMessage) {
+        return [
+          {
+            line: directive.line,
+            start: valueStart,
+            end: valueStart + value.length,
+            message: valueMessage,
+          },
+        ];
+      }
+      return [];
+    })
+  );
+  for (const directive of matchDirectives(directives).unmatched) {
+    const [text, missing] =
+      directive.kind === "start"
+        ? [START_DIRECTIVE, END_DIRECTIVE]
+        : [END_DIRECTIVE, START_DIRECTIVE];
+    problems.push({
+      line: directive.line,
+      start: directive.column,
+      end: directive.column + text.length,
+      message: `"${text}" without a matching "${missing}"`,
+    });
+  }
+  return problems.sort((a, b) => a.line - b.line || a.start - b.start);
+}
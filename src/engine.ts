@@ -0,0 +1,626 @@
+/**
+ * Pure TypeScript implementation of the keep-sorted formatter.
+ *
+ * Stands in for the keep-sorted binary on platforms where no binary can be spawned. Mirrors the
+ * binary's behavior for the core options and reports the same findings JSON, so callers handle both
+ * the same way.
+ */
+import {
+  Directive,
+  matchDirectives,
+  parseBool,
+  parseDirective,
+  parseDirectives,
+  parseList,
+  START_DIRECTIVE,
+  tokenizeOptions,
+} from "./directives";
+import type { KeepSortedFinding } from "./keepsorted";
+import { toRegExp } from "./re2";
+
+/** Version of the keep-sorted binary whose behavior the engine mirrors. */
+export const ENGINE_VERSION = "v0.7.1";
+
+const OUT_OF_ORDER_MESSAGE = "These lines are out of order.";
+const MISSING_END_MESSAGE = "This instruction doesn't have matching 'keep-sorted end' line.";
+const MISSING_START_MESSAGE = "This instruction doesn't have matching 'keep-sorted start' line.";
+
+/** Sorting options of a keep-sorted block, parsed from its start directive. */
+export interface BlockOptions {
+  block: boolean;
+  byRegex: RegExp[];
+  caseSensitive: boolean;
+  group: boolean;
+  groupPrefixes: string[];
+  ignorePrefixes: string[];
+  /** Number of blank lines between items, zero when items aren't newline separated. */
+  newlineSeparated: number;
+  numeric: boolean;
+  prefixOrder: string[];
+  removeDuplicates: boolean;
+  skipLines: number;
+  stickyComments: boolean;
+  stickyPrefixes: string[];
+}
+
+const DEFAULT_OPTIONS: Readonly<BlockOptions> = {
+  block: false,
+  byRegex: [],
+  caseSensitive: true,
+  group: true,
+  groupPrefixes: [],
+  ignorePrefixes: [],
+  newlineSeparated: 0,
+  numeric: false,
+  prefixOrder: [],
+  removeDuplicates: true,
+  skipLines: 0,
+  stickyComments: true,
+  stickyPrefixes: [],
+};
+
+/** One-based and inclusive line range, matching the binary's `--lines` flag. */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/** Zero-based line indices of a matched start and end directive pair. */
+interface Block {
+  start: number;
+  end: number;
+}
+
+/** A sortable item: the lines that move together plus the sticky comments above them. */
+interface LineGroup {
+  comment: string[];
+  lines: string[];
+}
+
+/** Splits text into lines, reporting whether it ended with a newline. */
+function splitLines(text: string): { lines: string[]; finalNewline: boolean } {
+  const lines = text.split("\n");
+  const finalNewline = lines[lines.length - 1] === "";
+  if (finalNewline) {
+    lines.pop();
+  }
+  return { lines, finalNewline };
+}
+
+/**
+ * Parses `key=value` option text into block options on top of the defaults.
+ *
+ * Unknown options and invalid values are ignored, the same as the binary.
+ */
+export function parseOptions(text: string, defaults: BlockOptions = DEFAULT_OPTIONS): BlockOptions {
+  const options: BlockOptions = { ...defaults };
+  for (const { key, value } of tokenizeOptions(text)) {
+    switch (key) {
+      case "block":
+        options.block = parseBool(value) ?? options.block;
+        break;
+      case "by_regex":
+        // Patterns JavaScript can't match the same as RE2 are ignored
+        options.byRegex = parseList(value).flatMap((pattern) => toRegExp(pattern) ?? []);
+        break;
+      case "case":
+        options.caseSensitive = parseBool(value) ?? options.caseSensitive;
+        break;
+      case "group":
+        options.group = parseBool(value) ?? options.group;
+        break;
+      case "group_prefixes":
+        options.groupPrefixes = parseList(value);
+        break;
+      case "ignore_prefixes":
+        options.ignorePrefixes = parseList(value);
+        break;
+      case "newline_separated": {
+        const enabled = parseBool(value);
+        if (enabled !== undefined) {
+          options.newlineSeparated = enabled ? 1 : 0;
+        } else if (/^\d+$/.test(value)) {
+          options.newlineSeparated = parseInt(value, 10);
+        }
+        break;
+      }
+      case "numeric":
+        options.numeric = parseBool(value) ?? options.numeric;
+        break;
+      case "prefix_order":
+        options.prefixOrder = parseList(value);
+        break;
+      case "remove_duplicates":
+        options.removeDuplicates = parseBool(value) ?? options.removeDuplicates;
+        break;
+      case "skip_lines":
+        if (/^\d+$/.test(value)) {
+          options.skipLines = parseInt(value, 10);
+        }
+        break;
+      case "sticky_comments":
+        options.stickyComments = parseBool(value) ?? options.stickyComments;
+        break;
+      case "sticky_prefixes":
+        options.stickyPrefixes = parseList(value);
+        break;
+    }
+  }
+  return options;
+}
+
+/** Parses the options of a start directive line, including its comment marker as sticky prefix. */
+export function parseDirectiveOptions(line: string, defaults: BlockOptions): BlockOptions {
+  const index = line.indexOf(START_DIRECTIVE);
+  const options = parseOptions(line.slice(index + START_DIRECTIVE.length), defaults);
+  const commentMarker = line.slice(0, index).trim();
+  if (options.stickyComments && commentMarker !== "") {
+    options.stickyPrefixes = [...options.stickyPrefixes, commentMarker];
+  }
+  return options;
+}
+
+/** Finds matched directive pairs, and any unmatched directives. */
+function findBlocks(lines: string[]): { blocks: Block[]; unmatched: Directive[] } {
+  const { pairs, unmatched } = matchDirectives(parseDirectives(lines));
+  return {
+    blocks: pairs.map(({ start, end }) => ({ start: start.line, end: end.line })),
+    unmatched,
+  };
+}
+
+function countIndent(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+const CLOSING_BRACES: Record<string, string> = { "(": ")", "[": "]", "{": "}" };
+const QUOTES = ['"""', "'''", '"', "'", "`"];
+
+/** Tracks open braces and quotes to find where a multi-line code block ends. */
+class CodeBlock {
+  private expected: string[] = [];
+
+  append(line: string): void {
+    let i = 0;
+    while (i < line.length) {
+      const top = this.expected[this.expected.length - 1];
+      if (top !== undefined && QUOTES.includes(top)) {
+        if (line[i] === "\\") {
+          i += 2;
+        } else if (line.startsWith(top, i)) {
+          this.expected.pop();
+          i += top.length;
+        } else {
+          i++;
+        }
+        continue;
+      }
+      const quote = QUOTES.find((q) => line.startsWith(q, i));
+      if (quote) {
+        this.expected.push(quote);
+        i += quote.length;
+        continue;
+      }
+      const c = line[i];
+      if (CLOSING_BRACES[c]) {
+        this.expected.push(CLOSING_BRACES[c]);
+      } else if (c === top) {
+        this.expected.pop();
+      }
+      i++;
+    }
+  }
+
+  done(): boolean {
+    return this.expected.length === 0;
+  }
+}
+
+/** Groups the lines of a block into the items that are sorted. */
+function groupLines(lines: string[], options: BlockOptions): LineGroup[] {
+  const groups: LineGroup[] = [];
+  let comment: string[] = [];
+  let current: string[] = [];
+  let initialIndent = 0;
+  // Nested blocks without indentation are kept whole within a single group
+  let unmatchedStarts = 0;
+  let block = new CodeBlock();
+
+  const finishGroup = () => {
+    groups.push({ comment, lines: current });
+    comment = [];
+    current = [];
+    block = new CodeBlock();
+    unmatchedStarts = 0;
+  };
+  const appendLine = (line: string) => {
+    if (current.length === 0) {
+      initialIndent = countIndent(line);
+    }
+    current.push(line);
+    if (options.block) {
+      block.append(line);
+    }
+    // Only the kind matters, not where the line is
+    const kind = parseDirective(line, 0)?.kind;
+    if (kind === "start") {
+      unmatchedStarts++;
+    } else if (kind === "end") {
+      unmatchedStarts--;
+    }
+  };
+  // Blank lines take the indentation of the next non-blank line
+  const indentAt = (i: number): number => {
+    const next = lines.slice(i).find((l) => l.trim() !== "");
+    return next === undefined ? -1 : countIndent(next);
+  };
+  const continuesGroup = (i: number): boolean => {
+    if (current.length === 0) {
+      return false;
+    }
+    if (options.block && !block.done()) {
+      return true;
+    }
+    if (unmatchedStarts > 0) {
+      return true;
+    }
+    const trimmed = lines[i].trimStart();
+    if (options.groupPrefixes.some((p) => p !== "" && trimmed.startsWith(p))) {
+      return true;
+    }
+    return options.group && indentAt(i) > initialIndent;
+  };
+  const isSticky = (line: string): boolean => {
+    const trimmed = line.trimStart();
+    return options.stickyComments && options.stickyPrefixes.some((p) => trimmed.startsWith(p));
+  };
+
+  lines.forEach((line, i) => {
+    if (continuesGroup(i)) {
+      appendLine(line);
+    } else if (isSticky(line) && !line.includes(START_DIRECTIVE)) {
+      if (current.length > 0) {
+        finishGroup();
+      }
+      comment.push(line);
+    } else {
+      if (current.length > 0) {
+        finishGroup();
+      }
+      appendLine(line);
+    }
+  });
+  if (comment.length > 0 || current.length > 0) {
+    finishGroup();
+  }
+  return groups;
+}
+
+/** Joins the lines of a group for comparison, ignoring indentation. */
+function joinLines(lines: string[]): string {
+  let joined = "";
+  let last = "";
+  for (const raw of lines) {
+    const line = raw.trimStart();
+    if (last !== "" && line !== "" && /\w$/.test(last) && /^\w/.test(line)) {
+      joined += " ";
+    }
+    joined += line;
+    last = line;
+  }
+  return joined;
+}
+
+function isBlank(group: LineGroup): boolean {
+  return group.comment.length === 0 && group.lines.length === 1 && group.lines[0].trim() === "";
+}
+
+function hasData(group: LineGroup): boolean {
+  return group.lines.length > 0 && !isBlank(group);
+}
+
+/**
+ * Appends a comma to the last item when all other items end with one, so it sorts like the rest.
+ *
+ * @returns A function that removes the comma again from whichever item ends up last
+ */
+function handleTrailingComma(groups: LineGroup[]): (sorted: LineGroup[]) => void {
+  const data = groups.filter(hasData);
+  const endsWithComma = (g: LineGroup) => g.lines[g.lines.length - 1].trimEnd().endsWith(",");
+  const last = data[data.length - 1];
+  if (data.length < 2 || !data.slice(0, -1).every(endsWithComma) || endsWithComma(last)) {
+    return () => {};
+  }
+  last.lines[last.lines.length - 1] += ",";
+  return (sorted: LineGroup[]) => {
+    const newLast = sorted.filter(hasData).pop();
+    if (newLast) {
+      const i = newLast.lines.length - 1;
+      newLast.lines[i] = newLast.lines[i].replace(/,(\s*)$/, "$1");
+    }
+  };
+}
+
+/** Whether items are separated by exactly the configured number of blank lines. */
+function isNewlineSeparated(groups: LineGroup[], count: number): boolean {
+  let blanks = count;
+  for (const group of groups) {
+    if (isBlank(group)) {
+      blanks++;
+      continue;
+    }
+    if (blanks !== count) {
+      return false;
+    }
+    blanks = 0;
+  }
+  return blanks === 0 || groups.length === 0;
+}
+
+/**
+ * Compares text by code point, the same as the binary comparing UTF-8 bytes. Comparing UTF-16 code
+ * units instead would order characters past U+FFFF, such as emoji, before those from U+E000.
+ */
+function compareText(a: string, b: string): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) {
+      return Math.sign(a.codePointAt(i)! - b.codePointAt(i)!);
+    }
+  }
+  return Math.sign(a.length - b.length);
+}
+
+/** Compares text with runs of digits compared by their numeric value. */
+function compareNumeric(a: string, b: string): number {
+  const aTokens = a.split(/(\d+)/);
+  const bTokens = b.split(/(\d+)/);
+  for (let i = 0; i < Math.min(aTokens.length, bTokens.length); i++) {
+    let result: number;
+    if (i % 2 === 1) {
+      const aNumber = aTokens[i].replace(/^0+(?=\d)/, "");
+      const bNumber = bTokens[i].replace(/^0+(?=\d)/, "");
+      result = aNumber.length - bNumber.length || compareText(aNumber, bNumber);
+    } else {
+      result = compareText(aTokens[i], bTokens[i]);
+    }
+    if (result !== 0) {
+      return result;
+    }
+  }
+  return aTokens.length - bTokens.length;
+}
+
+/** Creates the comparison function for the items of a block. */
+function itemComparator(options: BlockOptions): (a: LineGroup, b: LineGroup) => number {
+  // Longest prefixes match first; weights are negative so matching items sort before the rest
+  // unless an empty prefix places the rest in between.
+  const prefixWeights = options.prefixOrder
+    .map((prefix, i) => ({ prefix, weight: i - options.prefixOrder.length }))
+    .sort((a, b) => b.prefix.length - a.prefix.length);
+  const prefixWeight = (s: string) =>
+    prefixWeights.find((p) => s.startsWith(p.prefix))?.weight ?? 0;
+  const trimIgnorePrefix = (s: string) => {
+    const longest = options.ignorePrefixes
+      .filter((p) => s.startsWith(p))
+      .reduce((a, b) => (b.length > a.length ? b : a), "");
+    return s.slice(longest.length);
+  };
+  const compareValues = (a: string, b: string): number => {
+    const aTrimmed = trimIgnorePrefix(a);
+    const bTrimmed = trimIgnorePrefix(b);
+    const weight = prefixWeight(aTrimmed) - prefixWeight(bTrimmed);
+    if (weight !== 0) {
+      return weight;
+    }
+    const aCased = options.caseSensitive ? aTrimmed : aTrimmed.toLowerCase();
+    const bCased = options.caseSensitive ? bTrimmed : bTrimmed.toLowerCase();
+    return options.numeric ? compareNumeric(aCased, bCased) : compareText(aCased, bCased);
+  };
+  // Each regex contributes its capture groups, or the whole match when it has none
+  const sortValues = (group: LineGroup): (string[] | null)[] => {
+    const joined = joinLines(group.lines);
+    if (options.byRegex.length === 0) {
+      return [[joined]];
+    }
+    return options.byRegex.map((regex) => {
+      const match = regex.exec(joined);
+      if (!match) {
+        return null;
+      }
+      return match.length > 1 ? match.slice(1).map((m) => m ?? "") : [match[0]];
+    });
+  };
+  const compareMatches = (a: (string[] | null)[], b: (string[] | null)[]): number => {
+    for (let i = 0; i < a.length; i++) {
+      const aMatch = a[i];
+      const bMatch = b[i];
+      if (aMatch === null || bMatch === null) {
+        // Items not matching a regex sort after those that do
+        const result = (aMatch === null ? 1 : 0) - (bMatch === null ? 1 : 0);
+        if (result !== 0) {
+          return result;
+        }
+        continue;
+      }
+      for (let j = 0; j < Math.min(aMatch.length, bMatch.length); j++) {
+        const result = compareValues(aMatch[j], bMatch[j]);
+        if (result !== 0) {
+          return result;
+        }
+      }
+      if (aMatch.length !== bMatch.length) {
+        return aMatch.length - bMatch.length;
+      }
+    }
+    return 0;
+  };
+  return (a, b) => {
+    // Trailing comments without an item stay at the end
+    const commentOnly = Number(a.lines.length === 0) - Number(b.lines.length === 0);
+    return (
+      commentOnly ||
+      compareMatches(sortValues(a), sortValues(b)) ||
+      compareText(a.comment.join("\n"), b.comment.join("\n"))
+    );
+  };
+}
+
+/**
+ * Sorts the content lines of a block.
+ *
+ * @returns The sorted lines, or null if the lines are already sorted
+ */
+function sortLines(lines: string[], options: BlockOptions): string[] | null {
+  let groups = groupLines(lines, options);
+  let wasNewlineSeparated = true;
+  if (options.newlineSeparated > 0) {
+    wasNewlineSeparated = isNewlineSeparated(groups, options.newlineSeparated);
+    groups = groups.filter((g) => !isBlank(g));
+  }
+  const trimTrailingComma = handleTrailingComma(groups);
+  let removedDuplicate = false;
+  if (options.removeDuplicates) {
+    const seen = new Set<string>();
+    groups = groups.filter((g) => {
+      const key = `${joinLines(g.lines)}\n${g.comment.join("\n")}`;
+      removedDuplicate ||= seen.has(key);
+      const isNew = !seen.has(key);
+      seen.add(key);
+      return isNew;
+    });
+  }
+  const compare = itemComparator(options);
+  const isSorted = groups.every((g, i) => i === 0 || compare(groups[i - 1], g) <= 0);
+  if (isSorted && wasNewlineSeparated && !removedDuplicate) {
+    return null;
+  }
+  const sorted = [...groups].sort(compare);
+  trimTrailingComma(sorted);
+  const separator = Array<string>(options.newlineSeparated).fill("");
+  const sortedLines = sorted.flatMap((g, i) => [
+    ...(i > 0 ? separator : []),
+    ...g.comment,
+    ...g.lines,
+  ]);
+  if (sortedLines.length === lines.length && sortedLines.every((l, i) => l === lines[i])) {
+    return null;
+  }
+  return sortedLines;
+}
+
+/**
+ * Counts the items of a block as they're sorted, leaving out blank lines, sticky comments and the
+ * lines continuing an item.
+ *
+ * @param lines The lines of the document
+ * @param start Zero-based line of the start directive
+ * @param end Zero-based line of the end directive
+ * @param defaultOptions Options applied unless the start directive overrides them
+ */
+export function countItems(
+  lines: string[],
+  start: number,
+  end: number,
+  defaultOptions = ""
+): number {
+  const options = parseDirectiveOptions(lines[start], parseOptions(defaultOptions));
+  return groupLines(lines.slice(start + 1 + options.skipLines, end), options).filter(hasData)
+    .length;
+}
+
+/** Sorts a block's content, returning the content range and sorted lines if out of order. */
+function sortBlock(
+  lines: string[],
+  block: Block,
+  defaults: BlockOptions
+): { start: number; end: number; sorted: string[] } | null {
+  const options = parseDirectiveOptions(lines[block.start], defaults);
+  // Content excludes the directives and any skipped header lines
+  const start = block.start + 1 + options.skipLines;
+  const end = block.end - 1;
+  if (start > end) {
+    return null;
+  }
+  const sorted = sortLines(lines.slice(start, end + 1), options);
+  return sorted ? { start, end, sorted } : null;
+}
+
+/**
+ * Lints text the same way as the binary's lint mode.
+ *
+ * @param text The text to lint
+ * @param path The path reported in the findings
+ * @param range Optional range to restrict linting to blocks overlapping it
+ * @param defaultOptions Options applied to every block unless its start directive overrides them
+ *
+ * @returns The findings, empty if all blocks are sorted
+ */
+export function lint(
+  text: string,
+  path: string,
+  range?: LineRange,
+  defaultOptions = ""
+): KeepSortedFinding[] {
+  const defaults = parseOptions(defaultOptions);
+  const { lines } = splitLines(text);
+  const { blocks, unmatched } = findBlocks(lines);
+  const findings: KeepSortedFinding[] = unmatched.map((directive) => ({
+    path,
+    lines: { start: directive.line + 1, end: directive.line + 1 },
+    message: directive.kind === "start" ? MISSING_END_MESSAGE : MISSING_START_MESSAGE,
+    fixes: [],
+  }));
+  for (const block of blocks) {
+    if (range && (block.start + 1 > range.end || block.end + 1 < range.start)) {
+      continue;
+    }
+    const result = sortBlock(lines, block, defaults);
+    if (!result) {
+      continue;
+    }
+    const findingLines = { start: result.start + 1, end: result.end + 1 };
+    findings.push({
+      path,
+      lines: findingLines,
+      message: OUT_OF_ORDER_MESSAGE,
+      fixes: [
+        {
+          replacements: [
+            { lines: findingLines, new_content: result.sorted.map((l) => `${l}\n`).join("") },
+          ],
+        },
+      ],
+    });
+  }
+  return findings.sort((a, b) => a.lines.start - b.lines.start);
+}
+
+/**
+ * Fixes text the same way as the binary's fix mode.
+ *
+ * @param text The text to fix
+ * @param defaultOptions Options applied to every block unless its start directive overrides them
+ *
+ * @returns The fixed text, or null if all blocks are already sorted
+ */
+export function fix(text: string, defaultOptions = ""): string | null {
+  const defaults = parseOptions(defaultOptions);
+  const { lines, finalNewline } = splitLines(text);
+  let fixed = false;
+  // Fix one block at a time, innermost first, and find blocks again since sorting can remove
+  // duplicate lines and shift the blocks after it.
+  const maxFixes = findBlocks(lines).blocks.length * 2;
+  for (let i = 0; i < maxFixes; i++) {
+    const blocks = findBlocks(lines).blocks.sort((a, b) => a.end - a.start - (b.end - b.start));
+    const result = blocks.map((block) => sortBlock(lines, block, defaults)).find((r) => r !== null);
+    if (!result) {
+      break;
+    }
+    lines.splice(result.start, result.end - result.start + 1, ...result.sorted);
+    fixed = true;
+  }
+  if (!fixed) {
+    return null;
+  }
+  return lines.join("\n") + (finalNewline ? "\n" : "");
+}
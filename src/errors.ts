@@ -0,0 +1,152 @@
+import * as vscode from "vscode";
+import * as winston from "winston";
+import { disableForSession } from "./configuration";
+import { logAndGetError, logger } from "./instrumentation";
+import { notifier } from "./notifications";
+
+/** Base class of all expected keep-sorted failures so callers can react to each kind. */
+export class KeepSortedError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "KeepSortedError";
+  }
+}
+
+/** Thrown when the binary can't be spawned because it doesn't exist or can't be executed. */
+export class BinaryNotFoundError extends KeepSortedError {
+  constructor(
+    public readonly binaryPath: string,
+    options?: ErrorOptions
+  ) {
+    super(`Unable to run keep-sorted binary at ${binaryPath}`, options);
+    this.name = "BinaryNotFoundError";
+  }
+}
+
+/** Thrown when the binary exits with a code other than the success and findings codes. */
+export class BinaryCrashedError extends KeepSortedError {
+  constructor(
+    binaryFilename: string,
+    public readonly exitCode: number,
+    public readonly stderr: string
+  ) {
+    super(`${binaryFilename} failed with code ${exitCode}: ${stderr}`);
+    this.name = "BinaryCrashedError";
+  }
+}
+
+/** Thrown when the binary's output can't be parsed. */
+export class MalformedOutputError extends KeepSortedError {
+  constructor(
+    public readonly output: string,
+    options?: ErrorOptions
+  ) {
+    super(`Failed to parse command output: ${options?.cause ?? output}`, options);
+    this.name = "MalformedOutputError";
+  }
+}
+
+/** Thrown when the binary doesn't exit within the configured `keep-sorted.timeoutMs`. */
+export class TimeoutError extends KeepSortedError {
+  constructor(
+    message: string,
+    public readonly timeoutMs: number
+  ) {
+    super(message);
+    this.name = "TimeoutError";
+  }
+}
+
+/** Thrown when a fix is requested but everything is already sorted. */
+export class NothingToFixError extends KeepSortedError {
+  constructor() {
+    super("No findings to fix");
+    this.name = "NothingToFixError";
+  }
+}
+
+/** Thrown when a single block can't be fixed without changing other lines. */
+export class BlockNotFixableError extends KeepSortedError {
+  constructor(message: string) {
+    super(message);
+    this.name = "BlockNotFixableError";
+  }
+}
+
+/** Thrown instead of running a binary whose hash doesn't match its `.sha256` manifest. */
+export class IntegrityError extends KeepSortedError {
+  constructor(
+    message: string,
+    public readonly expectedHash: string | undefined,
+    public readonly actualHash: string
+  ) {
+    super(message);
+    this.name = "IntegrityError";
+  }
+}
+
+/** Thrown instead of running a binary that failed too many times in a row, until it cools down. */
+export class CircuitOpenError extends KeepSortedError {
+  constructor(public readonly failures: number) {
+    super(`keep-sorted binary paused after ${failures} consecutive failures`);
+    this.name = "CircuitOpenError";
+  }
+}
+
+/**
+ * How to react to a failure.
+ *
+ * - `ignore`: Expected outcomes such as cancellation or nothing to fix, or failures already shown
+ *   such as a paused binary, only logged for debugging
+ * - `notify`: Transient failures, shown with actions to recover from them
+ * - `disable`: Failures that will recur on every invocation, so the extension is disabled for the
+ *   rest of the session, notifying unless the failure was already shown such as a failed integrity
+ *   check
+ */
+export type ErrorReaction = "ignore" | "notify" | "disable";
+
+/** Gets how to react to the failure. */
+export function reactionTo(err: unknown): ErrorReaction {
+  if (
+    err instanceof vscode.CancellationError ||
+    err instanceof NothingToFixError ||
+    err instanceof BlockNotFixableError ||
+    err instanceof CircuitOpenError
+  ) {
+    return "ignore";
+  }
+  if (err instanceof BinaryNotFoundError || err instanceof IntegrityError) {
+    return "disable";
+  }
+  return "notify";
+}
+
+/**
+ * Logs the failure and reacts to it as described by {@link reactionTo}.
+ *
+ * @param err The failure to handle
+ * @param errLogger Logger with the context of the failure
+ * @param uri The document that failed, if any
+ */
+export function handleError(
+  err: unknown,
+  errLogger: winston.Logger = logger,
+  uri?: vscode.Uri
+): void {
+  const message = err instanceof Error ? err.message : String(err);
+  const reaction = reactionTo(err);
+  if (reaction === "ignore") {
+    errLogger.debug(`Ignoring expected failure: ${message}`);
+    return;
+  }
+  logAndGetError(errLogger, err);
+  const disabled = reaction === "disable";
+  if (disabled) {
+    disableForSession();
+  }
+  // The integrity check already showed the failure with how to fix it
+  if (err instanceof IntegrityError) {
+    return;
+  }
+  void notifier.notify(message, { uri, disabled });
+}
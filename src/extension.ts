@@ -1,14 +1,27 @@
 import * as vscode from "vscode";
 import * as workspace from "./workspace";
-import { FixFileCommandHandler, FixWorkspaceCommandHandler } from "./commands";
+import {
+  FixBlockCommandHandler,
+  FixFileCommandHandler,
+  FixWorkspaceCommandHandler,
+  PreviewFixCommandHandler,
+} from "./commands";
 import { logger, EXT_NAME, contextualizeLogger, setFileLogging } from "./instrumentation";
 import { KeepSorted } from "./keepsorted";
+import { OutlineProvider } from "./outline";
+import { PreviewContentProvider } from "./preview";
 import { ActionProvider } from "./actions";
+import { CodeLensProvider } from "./codelens";
+import { CompletionProvider } from "./completion";
+import { HoverProvider } from "./hover";
+import { handleError } from "./errors";
 import {
   getConfig,
   handleConfigurationChange,
   onEnabledChange,
   onLogFilepathChange,
+  onConfigurationReload,
+  onSeverityChange,
 } from "./configuration";
 
 const EXECUTE_DELAY_MS = 3000;
@@ -18,6 +31,7 @@ export function activate(context: vscode.ExtensionContext) {
   logger.info(`Activating extension ${EXT_NAME}...`);
 
   const linter = new KeepSorted(context.extensionPath);
+  showBinaryVersion(context, linter);
   const diagnostics = vscode.languages.createDiagnosticCollection(EXT_NAME);
   context.subscriptions.push(diagnostics);
   const editFactory = new workspace.EditFactory(linter, diagnostics);
@@ -51,21 +65,67 @@ export function activate(context: vscode.ExtensionContext) {
         diagnostics.set(document.uri, results);
       }
     } catch (err: Error | unknown) {
-      const errorMessage = err instanceof Error ? err.message : workspace.toJson(err);
-      contextualizeLogger(document).error(`Linting failed with:\n${errorMessage}`);
+      handleError(err, contextualizeLogger(document), document.uri);
     }
   }
 
+  const selector: vscode.DocumentSelector = workspace.IN_SCOPE_SCHEMAS.map((s: string) => ({
+    scheme: s,
+  }));
+
   // Register code action provider
   extSubsHandler.addRegister(async () => {
-    const selector: vscode.DocumentSelector = workspace.IN_SCOPE_SCHEMAS.map((s: string) => ({
-      scheme: s,
-    }));
     return vscode.languages.registerCodeActionsProvider(selector, actionProvider, {
       providedCodeActionKinds: ActionProvider.kinds,
     });
   });
-  [FixFileCommandHandler, FixWorkspaceCommandHandler].forEach((handler) => {
+  // Register hover documentation of directive options
+  extSubsHandler.addRegister(async () => {
+    return vscode.languages.registerHoverProvider(selector, new HoverProvider());
+  });
+  // Register completion of directive options and end directives
+  extSubsHandler.addRegister(async () => {
+    return vscode.languages.registerCompletionItemProvider(
+      selector,
+      new CompletionProvider(),
+      ...CompletionProvider.triggerCharacters
+    );
+  });
+  // Register a lens above every block, sorting it or showing that it is sorted
+  extSubsHandler.addRegister(async () => {
+    const codeLensProvider = new CodeLensProvider(diagnostics);
+    return vscode.Disposable.from(
+      vscode.languages.registerCodeLensProvider(selector, codeLensProvider),
+      codeLensProvider
+    );
+  });
+  // Register blocks as folding regions and outline symbols
+  extSubsHandler.addRegister(async () => {
+    const outlineProvider = new OutlineProvider();
+    return vscode.Disposable.from(
+      vscode.languages.registerFoldingRangeProvider(selector, outlineProvider),
+      vscode.languages.registerDocumentSymbolProvider(selector, outlineProvider, {
+        label: "keep-sorted blocks",
+      })
+    );
+  });
+  // Register the preview of fixes, shown in a diff before being applied
+  extSubsHandler.addRegister(async () => {
+    const previewProvider = new PreviewContentProvider();
+    const commandHandler = new PreviewFixCommandHandler(diagnostics, editFactory, previewProvider);
+    return vscode.Disposable.from(
+      vscode.workspace.registerTextDocumentContentProvider(
+        PreviewContentProvider.scheme,
+        previewProvider
+      ),
+      previewProvider,
+      vscode.commands.registerCommand(
+        commandHandler.command.command,
+        commandHandler.handle.bind(commandHandler)
+      )
+    );
+  });
+  [FixBlockCommandHandler, FixFileCommandHandler, FixWorkspaceCommandHandler].forEach((handler) => {
     extSubsHandler.addRegister(async () => {
       const commandHandler = new handler(diagnostics, editFactory);
       return vscode.commands.registerCommand(
@@ -101,6 +161,14 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
   context.subscriptions.push(onLogFilepathChange(setFileLogging));
+  context.subscriptions.push(onSeverityChange(() => workspace.updateSeverities(diagnostics)));
+  // Settings such as the binary and its arguments can change results for the same text
+  context.subscriptions.push(
+    onConfigurationReload(() => {
+      linter.clearCache();
+      linter.logCommandLine();
+    })
+  );
   setFileLogging(getConfig().logFilepath);
 
   extSubsHandler.registerExtensionSubscriptions();
@@ -108,15 +176,39 @@ export function activate(context: vscode.ExtensionContext) {
   // Initial linting of all documents upon activation
   workspace.inScopeUris().then(async (uris) => {
     logger.info(`Found ${uris.length} workspace documents for possible linting on activation`);
+    // Files on disk are linted in batches, documents with unsaved changes are linted from the
+    // editor's text instead
+    try {
+      const { failures } = await editFactory.lintFiles(uris);
+      for (const { uri, error } of failures) {
+        handleError(error, contextualizeLogger(uri), uri);
+      }
+    } catch (err: Error | unknown) {
+      handleError(err, logger);
+    }
     await Promise.all(
-      uris.map(async (uri) => {
-        const document = await vscode.workspace.openTextDocument(uri);
-        if (document) {
-          lint(document);
-        }
-      })
+      vscode.workspace.textDocuments
+        .filter((document) => document.isDirty && workspace.isInScope(document.uri))
+        .map(lint)
     );
   });
 
   logger.info(`Extension ${EXT_NAME} activated.`);
 }
+
+/** Shows the version of the binary in the status bar so users can verify it matches CI. */
+function showBinaryVersion(context: vscode.ExtensionContext, linter: KeepSorted) {
+  const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right);
+  context.subscriptions.push(statusBarItem);
+  statusBarItem.tooltip = linter.binaryPath;
+  linter
+    .detectVersion()
+    .then((version) => {
+      statusBarItem.text = `$(list-ordered) keep-sorted ${version}`;
+    })
+    .catch(() => {
+      // Already logged by the linter, keep the status visible to flag the problem
+      statusBarItem.text = `$(warning) keep-sorted unavailable`;
+    })
+    .finally(() => statusBarItem.show());
+}
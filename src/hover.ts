@@ -0,0 +1,121 @@
+import * as vscode from "vscode";
+import { getConfig } from "./configuration";
+import { OPTION_DOCS, OptionToken, parseDirective, START_DIRECTIVE } from "./directives";
+import { BlockOptions, parseDirectiveOptions, parseOptions } from "./engine";
+
+/** Formats values as a comma separated list of inline code. */
+function codeList(values: string[]): string {
+  return values.map((value) => `\`${value}\``).join(", ");
+}
+
+/** Gets the zero-based column just past the option's value. */
+function optionEnd(option: OptionToken): number {
+  return option.valueStart + option.value.length;
+}
+
+/**
+ * Describes how the options of a block affect its sorting.
+ *
+ * @param options The effective options of the block, including the configured default options and
+ *   the comment marker of a start directive with sticky comments
+ *
+ * @returns A sentence per behavior
+ */
+export function describeSorting(options: BlockOptions): string[] {
+  const descriptions: string[] = [];
+  if (options.skipLines > 0) {
+    descriptions.push(`The first ${options.skipLines} lines stay in place.`);
+  }
+  if (options.prefixOrder.length > 0) {
+    // An empty prefix places the lines without any of the prefixes
+    const order = options.prefixOrder.map((prefix) =>
+      prefix === "" ? "other lines" : codeList([prefix])
+    );
+    descriptions.push(`Lines are ordered by prefix first: ${order.join(", ")}.`);
+  }
+  if (options.ignorePrefixes.length > 0) {
+    descriptions.push(`The prefixes ${codeList(options.ignorePrefixes)} are ignored.`);
+  }
+  if (options.byRegex.length > 0) {
+    descriptions.push(
+      `Lines are compared by the text matched by ${codeList(options.byRegex.map((r) => r.source))}.`
+    );
+  }
+  descriptions.push(
+    options.caseSensitive
+      ? "Comparison is case sensitive, uppercase before lowercase."
+      : "Comparison ignores case."
+  );
+  descriptions.push(
+    options.numeric
+      ? "Numbers are compared by value, so 2 comes before 10."
+      : "Numbers are compared as text, so 10 comes before 2."
+  );
+  if (options.block) {
+    descriptions.push("Lines inside brackets and quotes move with the line opening them.");
+  }
+  if (options.group) {
+    descriptions.push("Lines indented further than the first line move with the line above them.");
+  }
+  if (options.groupPrefixes.length > 0) {
+    descriptions.push(
+      `Lines starting with ${codeList(options.groupPrefixes)} move with the line above them.`
+    );
+  }
+  if (options.stickyPrefixes.length > 0) {
+    descriptions.push(
+      `Lines starting with ${codeList(options.stickyPrefixes)} move with the line below them.`
+    );
+  }
+  descriptions.push(
+    options.removeDuplicates ? "Duplicate lines are removed." : "Duplicate lines are kept."
+  );
+  if (options.newlineSeparated > 0) {
+    descriptions.push(
+      options.newlineSeparated === 1
+        ? "Items are separated by a blank line."
+        : `Items are separated by ${options.newlineSeparated} blank lines.`
+    );
+  }
+  return descriptions;
+}
+
+/** Provides documentation of the options when hovering a start directive. */
+export class HoverProvider implements vscode.HoverProvider {
+  provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): vscode.ProviderResult<vscode.Hover> {
+    const text = document.lineAt(position.line).text;
+    const directive = parseDirective(text, position.line);
+    if (directive?.kind !== "start" || position.character < directive.column) {
+      return undefined;
+    }
+
+    const options = parseDirectiveOptions(text, parseOptions(getConfig().defaultOptions));
+    const contents = new vscode.MarkdownString();
+    const option = directive.options.find(
+      (o) => position.character >= o.keyStart && position.character <= optionEnd(o)
+    );
+    const doc = option && OPTION_DOCS[option.key];
+    let range: vscode.Range;
+    if (option && doc) {
+      contents.appendMarkdown(`**\`${option.key}\`**: ${doc.description}\n\n`);
+      contents.appendMarkdown(`Default: ${doc.default}\n\n`);
+      contents.appendCodeblock(doc.example);
+      range = new vscode.Range(position.line, option.keyStart, position.line, optionEnd(option));
+    } else {
+      contents.appendMarkdown(
+        `**${START_DIRECTIVE}**: sorts the lines up to the matching \`keep-sorted end\`.\n\n`
+      );
+      range = new vscode.Range(position.line, directive.column, position.line, text.length);
+    }
+    contents.appendMarkdown("\n\n---\n\n**This block**\n\n");
+    contents.appendMarkdown(
+      describeSorting(options)
+        .map((description) => `- ${description}`)
+        .join("\n")
+    );
+    return new vscode.Hover(contents, range);
+  }
+}
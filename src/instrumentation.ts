@@ -1,5 +1,6 @@
 import * as vscode from "vscode";
 import * as winston from "winston";
+import { blockRange } from "./diagnostics";
 import * as workspace from "./workspace";
 import * as tb from "triple-beam";
 import * as path from "path";
@@ -70,9 +71,13 @@ function createFileTransport(filepath: string) {
   });
 }
 
+/** Output channel the logger writes to, kept so it can be revealed from notifications. */
+let logOutputChannel: vscode.LogOutputChannel | undefined;
+
 /** Creates a logger instance for the extension. */
 function createLogger(): winston.Logger {
   const outputChannel = vscode.window.createOutputChannel(EXT_DISPLAY_NAME, { log: true });
+  logOutputChannel = outputChannel;
   outputChannel.show();
 
   const winstonLogLevel = (vscodeLevel: vscode.LogLevel) =>
@@ -125,6 +130,11 @@ function createLogger(): winston.Logger {
  */
 export const logger = createLogger();
 
+/** Reveals the extension's log output channel without taking focus. */
+export function showLogs(): void {
+  logOutputChannel?.show(true);
+}
+
 function uri(documentOrUri: vscode.TextDocument | vscode.Uri): vscode.Uri {
   return documentOrUri instanceof vscode.Uri ? documentOrUri : documentOrUri.uri;
 }
@@ -153,7 +163,7 @@ function logFormat(info: TransformableInfo) {
 
 /**
  * Gets diagnostics for the given document or URI relevant to the extension, optionally filtered by
- * range.
+ * range. A diagnostic is relevant anywhere in its block, not only on the line it is shown on.
  */
 export function relevantDiagnostics(
   documentOrUri: vscode.TextDocument | vscode.Uri,
@@ -161,11 +171,69 @@ export function relevantDiagnostics(
 ): vscode.Diagnostic[] {
   const diagnostics = vscode.languages.getDiagnostics(uri(documentOrUri));
   const relevantDiagnostics = range
-    ? diagnostics.filter((d) => d.range.intersection(range))
+    ? diagnostics.filter((d) => blockRange(d).intersection(range))
     : diagnostics;
   return relevantDiagnostics;
 }
 
+/** Statistics of a queue of pending work. */
+export interface QueueStats {
+  /** Number of items still waiting after this one was dequeued. */
+  queued: number;
+  /** Number of items running, including this one. */
+  active: number;
+  /** Time this item waited in the queue. */
+  waitMs: number;
+}
+
+/**
+ * Logs the queue depth and wait time of a dequeued item.
+ *
+ * @param stats The queue statistics at the time the item was dequeued
+ * @param important Whether to log at info rather than debug level, such as when a backlog builds
+ */
+export function logQueueStats(stats: QueueStats, important = false) {
+  const text =
+    `Process queue: ${stats.queued} queued, ${stats.active} active, ` +
+    `waited ${stats.waitMs.toFixed(0)}ms`;
+  if (important) {
+    logger.info(text);
+  } else {
+    logger.debug(text);
+  }
+}
+
+/** Statistics of a result cache. */
+export interface CacheStats {
+  /** Name of the cache such as the mode of the results. */
+  name: string;
+  /** Number of lookups served from the cache. */
+  hits: number;
+  /** Number of lookups that had to run the binary. */
+  misses: number;
+  /** Number of results cached. */
+  size: number;
+}
+
+/**
+ * Logs the hit rate of a result cache.
+ *
+ * @param stats The cache statistics after the latest lookup
+ * @param important Whether to log at info rather than debug level, such as periodic summaries
+ */
+export function logCacheStats(stats: CacheStats, important = false) {
+  const lookups = stats.hits + stats.misses;
+  const hitRate = lookups === 0 ? 0 : (100 * stats.hits) / lookups;
+  const text =
+    `${stats.name} cache: ${hitRate.toFixed(0)}% hit rate ` +
+    `(${stats.hits} hits, ${stats.misses} misses, ${stats.size} entries)`;
+  if (important) {
+    logger.info(text);
+  } else {
+    logger.debug(text);
+  }
+}
+
 /**
  * Sets up or removes file logging for the extension.
  *
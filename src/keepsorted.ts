@@ -1,7 +1,51 @@
 import * as vscode from "vscode";
-import { spawn } from "child_process";
+import { execFile, spawn } from "child_process";
+import { createHash } from "crypto";
+import * as fs from "fs";
 import * as path from "path";
-import { EXT_NAME, logger, contextualizeLogger, logAndGetError } from "./instrumentation";
+import { promisify } from "util";
+import * as winston from "winston";
+import { getConfig, getSeverity } from "./configuration";
+import { CircuitBreaker } from "./breaker";
+import { ResultCache, ResultKey } from "./cache";
+import { toDiagnostic, toDirectiveDiagnostic, toDocumentRange } from "./diagnostics";
+import { END_DIRECTIVE, findDirectiveProblems, START_DIRECTIVE } from "./directives";
+import { diffText } from "./diff";
+import * as engine from "./engine";
+import {
+  BinaryCrashedError,
+  BinaryNotFoundError,
+  BlockNotFixableError,
+  IntegrityError,
+  KeepSortedError,
+  MalformedOutputError,
+  NothingToFixError,
+  reactionTo,
+  TimeoutError,
+} from "./errors";
+import { EXT_DISPLAY_NAME, logger, contextualizeLogger, logAndGetError } from "./instrumentation";
+import { ProcessPool } from "./pool";
+import * as workspace from "./workspace";
+
+const execFileAsync = promisify(execFile);
+
+/** Time allowed for the binary to report its version before giving up. */
+const VERSION_TIMEOUT_MS = 5000;
+
+/**
+ * Maximum total length of the file paths passed to one binary invocation, kept below the 32K
+ * character command line limit of Windows.
+ */
+const MAX_BATCH_PATHS_LENGTH = 30000;
+
+/**
+ * Maximum time allowed for a batch of files, unless a single file is allowed longer. A batch timing
+ * out is linted again one file at a time.
+ */
+const MAX_BATCH_TIMEOUT_MS = 60000;
+
+/** Error codes showing the binary can't be spawned on this platform at all. */
+const SPAWN_FAILURE_CODES = ["EACCES", "EBADARCH", "ENOENT", "ENOEXEC", "EPERM", "UNKNOWN"];
 
 /**
  * Keep Sorted finding in the JSON format reported by it's binary. Uses casing matching the binary's
@@ -25,149 +69,653 @@ export interface KeepSortedFinding {
   }[];
 }
 
+/** Replacement of whole lines suggested by a finding's fix. */
+export type KeepSortedReplacement = KeepSortedFinding["fixes"][number]["replacements"][number];
+
+/** What the binary reads: a document's text on stdin, or files on disk passed as arguments. */
+type SpawnInput = { uri: vscode.Uri; stdin: string } | { files: vscode.Uri[] };
+
+/** A file on disk that couldn't be linted. */
+export interface FileLintFailure {
+  uri: vscode.Uri;
+  error: unknown;
+}
+
+/** Outcome of linting files on disk, where a failing file doesn't stop the others being linted. */
+export interface LintFilesResult {
+  /** The diagnostics of every linted file, empty for files without findings */
+  diagnostics: [vscode.Uri, vscode.Diagnostic[]][];
+  failures: FileLintFailure[];
+}
+
+/** Exit code and decoded output of a binary invocation. */
+interface SpawnResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+/** Gets the platform specific bundled binary based on the extension runner's OS. */
+export function getBundledBinaryPath(extensionPath: string): string {
+  let binaryPath = "";
+  switch (process.platform) {
+    case "win32":
+      binaryPath = path.win32.join(extensionPath, "bin", "keep-sorted.exe");
+      break;
+    case "darwin": {
+      // Detect architecture for macOS
+      const darwinArch = process.arch === "arm64" ? "arm64" : "amd64";
+      binaryPath = path.join(extensionPath, "bin", `keep-sorted-darwin-${darwinArch}`);
+      break;
+    }
+    case "linux":
+      binaryPath = path.join(extensionPath, "bin", "keep-sorted-linux-amd64");
+      break;
+    default:
+      // Fallback to linux binary for unsupported platforms
+      logger.warn(`Unsupported platform ${process.platform}, trying linux binary`);
+      binaryPath = path.join(extensionPath, "bin", "keep-sorted-linux-amd64");
+  }
+  return binaryPath;
+}
+
+/** Gets the error code of a failed spawn or exec, if any. */
+function errorCode(err: unknown): string | undefined {
+  if (!(err instanceof Error)) {
+    return undefined;
+  }
+  const code = (err as NodeJS.ErrnoException).code ?? (err.cause as NodeJS.ErrnoException)?.code;
+  return typeof code === "string" ? code : undefined;
+}
+
+/** Whether the error shows the binary can't be spawned on this platform at all. */
+function isSpawnFailure(err: unknown): boolean {
+  const code = errorCode(err);
+  return code !== undefined && SPAWN_FAILURE_CODES.includes(code);
+}
+
+/** Gets the hex encoded SHA256 hash of the file. */
+function sha256(filePath: string): string {
+  return createHash("sha256").update(fs.readFileSync(filePath)).digest("hex");
+}
+
+/** Converts a document range to the one-based inclusive lines expected by the binary. */
+function toLineRange(range: vscode.Range): engine.LineRange {
+  const start = range.start.line + 1;
+  // If the provided end value appears to be zero-based and is less than the start, normalize it
+  // to the start to ensure the CLI receives a valid inclusive range.
+  return { start, end: Math.max(range.end.line, start) };
+}
+
+/** Gets the arguments configured by the user, passed after the ones managed by the extension. */
+function configuredArgs(): string[] {
+  const { defaultOptions, extraArgs } = getConfig();
+  return [...(defaultOptions ? ["--default-options", defaultOptions] : []), ...extraArgs];
+}
+
+/** Splits files into batches whose paths fit on one command line. */
+function toBatches(uris: vscode.Uri[]): vscode.Uri[][] {
+  const batches: vscode.Uri[][] = [];
+  let batch: vscode.Uri[] = [];
+  let length = 0;
+  for (const uri of uris) {
+    // Plus one for the separating space
+    const pathLength = uri.fsPath.length + 1;
+    if (batch.length > 0 && length + pathLength > MAX_BATCH_PATHS_LENGTH) {
+      batches.push(batch);
+      batch = [];
+      length = 0;
+    }
+    batch.push(uri);
+    length += pathLength;
+  }
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+  return batches;
+}
+
+/**
+ * Gets the document text with LF line endings, since the binary's output and line numbers assume
+ * them.
+ */
+function lfText(document: vscode.TextDocument): string {
+  const text = document.getText();
+  return document.eol === vscode.EndOfLine.CRLF ? text.replace(/\r\n/g, "\n") : text;
+}
+
+/** Restores the document's line endings in text produced from {@link lfText}. */
+function withDocumentEol(document: vscode.TextDocument, text: string): string {
+  return document.eol === vscode.EndOfLine.CRLF ? text.replace(/\r?\n/g, "\r\n") : text;
+}
+
+/**
+ * Creates edits for only the lines that differ between the document and the fixed text, so
+ * untouched lines keep their undo history, markers and decorations.
+ */
+function toDiffEdits(document: vscode.TextDocument, fixed: string): vscode.TextEdit[] {
+  return diffText(document.getText(), fixed).map((hunk) =>
+    vscode.TextEdit.replace(
+      // The end may be past the last line if it has no line ending
+      document.validateRange(new vscode.Range(hunk.start, 0, hunk.end, 0)),
+      hunk.lines.join("")
+    )
+  );
+}
+
+/** Checks whether any of the replacements overlap and so can't be applied in a single edit. */
+function hasOverlap(replacements: KeepSortedReplacement[]): boolean {
+  const sorted = [...replacements].sort((a, b) => a.lines.start - b.lines.start);
+  return sorted.some((r, i) => i > 0 && r.lines.start <= sorted[i - 1].lines.end);
+}
+
+/**
+ * Converts the findings of a document to diagnostics, along with one for each directive problem.
+ *
+ * Unmatched directives are reported by the binary too, as findings without fixes, so those are
+ * dropped in favor of the directive diagnostic pointing at the directive itself.
+ */
+function toDiagnostics(
+  uri: vscode.Uri,
+  documentLines: string[],
+  findings: KeepSortedFinding[],
+  severity: vscode.DiagnosticSeverity
+): vscode.Diagnostic[] {
+  const problems = findDirectiveProblems(documentLines);
+  const problemLines = new Set(problems.map((problem) => problem.line));
+  return [
+    ...findings
+      .filter((finding) => finding.fixes.length > 0 || !problemLines.has(finding.lines.start - 1))
+      .map((finding) => toDiagnostic(uri, documentLines, finding, severity)),
+    ...problems.map((problem) => toDirectiveDiagnostic(uri, problem, severity)),
+  ];
+}
+
+/**
+ * Gets the reason a binary can't be run, or null if it is an executable file.
+ *
+ * On Windows the executable check degrades to an existence check.
+ */
+function unusableReason(binaryPath: string): string | null {
+  try {
+    if (!fs.statSync(binaryPath).isFile()) {
+      return "is not a file";
+    }
+  } catch {
+    return "does not exist";
+  }
+  try {
+    fs.accessSync(binaryPath, fs.constants.X_OK);
+  } catch {
+    return "is not executable";
+  }
+  return null;
+}
+
 /**
  * Interfaces with the keep-sorted binary to lint and fix documents.
  *
  * Spawns the platform-specific keep-sorted binary as a child process, communicating via
  * stdin/stdout. Handles both lint mode (returns JSON findings) and fix mode (returns corrected
- * content). The binary path is memoized to avoid repeated platform detection on every invocation.
+ * content). The binary path is resolved once on construction to avoid repeated platform detection
+ * on every invocation.
+ *
+ * If the binary can't be spawned on this platform at all, falls back to the TypeScript engine for
+ * the rest of the session.
  */
 export class KeepSorted {
   private readonly extensionPath: string;
-  private readonly binaryPath: string;
+  /** The full path of the binary being run. */
+  public readonly binaryPath: string;
   private readonly binaryFilename: string;
+  private binaryVersion: string | undefined;
+  private engineFallback = false;
+  /** Set if the binary failed verification, in which case it is never run. */
+  private readonly integrityError: IntegrityError | null;
+  /** Bounds the binary processes, and the files read at once such as when using the engine. */
+  private readonly pool = new ProcessPool();
+  private readonly breaker = new CircuitBreaker();
+  private readonly findingsCache = new ResultCache<KeepSortedFinding[]>("Lint");
+  private readonly fixCache = new ResultCache<string | null>("Fix");
 
   constructor(extensionPath: string) {
     this.extensionPath = extensionPath;
+    this.binaryPath = this.resolveBinaryPath();
+    this.binaryFilename = path.basename(this.binaryPath);
+    logger.info(`Using keep-sorted binary at path: ${this.binaryPath}`);
+    this.integrityError = this.verifyIntegrity();
+    this.logCommandLine();
+  }
+
+  /** The version reported by the binary, or undefined if not detected yet. */
+  get version(): string | undefined {
+    return this.binaryVersion;
+  }
+
+  /**
+   * Resolves the binary to run in order of precedence: the KEEP_SORTED_BINARY environment variable,
+   * the `keep-sorted.binaryPath` setting and then the bundled binary.
+   *
+   * A configured binary that is missing or not executable falls back to the bundled binary with a
+   * warning, rather than failing every lint.
+   */
+  private resolveBinaryPath(): string {
     // Allow override for test/CI environments
     const override = process.env.KEEP_SORTED_BINARY;
     if (override) {
-      this.binaryPath = path.resolve(override);
-      this.binaryFilename = path.basename(this.binaryPath);
-    } else {
-      const binaryInfo = this.getBundledBinaryPath();
-      this.binaryPath = binaryInfo.fullPath;
-      this.binaryFilename = binaryInfo.filename;
+      return path.resolve(override);
     }
-  }
-
-  /** Gets the platform specific binary based on the extension runner's OS. */
-  private getBundledBinaryPath() {
-    let binaryPath = "";
-    switch (process.platform) {
-      case "win32":
-        binaryPath = path.win32.join(this.extensionPath, "bin", "keep-sorted.exe");
-        break;
-      case "darwin": {
-        // Detect architecture for macOS
-        const darwinArch = process.arch === "arm64" ? "arm64" : "amd64";
-        binaryPath = path.join(this.extensionPath, "bin", `keep-sorted-darwin-${darwinArch}`);
-        break;
+    const configured = getConfig().binaryPath;
+    if (configured && configured.trim() !== "") {
+      const rootPath = workspace.rootPath();
+      const configuredPath =
+        rootPath && !path.isAbsolute(configured)
+          ? path.join(rootPath, configured)
+          : path.resolve(configured);
+      const reason = unusableReason(configuredPath);
+      if (!reason) {
+        return configuredPath;
       }
-      case "linux":
-        binaryPath = path.join(this.extensionPath, "bin", "keep-sorted-linux-amd64");
-        break;
-      default:
-        // Fallback to linux binary for unsupported platforms
-        logger.warn(`Unsupported platform ${process.platform}, trying linux binary`);
-        binaryPath = path.join(this.extensionPath, "bin", "keep-sorted-linux-amd64");
-    }
-    logger.info(`Using keep-sorted binary at path: ${binaryPath}`);
-    return {
-      fullPath: binaryPath,
-      filename: path.basename(binaryPath),
-    };
+      const message = `Configured binary "${configuredPath}" ${reason}, falling back to the bundled binary.`;
+      logger.warn(message);
+      void vscode.window.showWarningMessage(`${EXT_DISPLAY_NAME}: ${message}`);
+    }
+    return getBundledBinaryPath(this.extensionPath);
   }
 
-  async getSingleReplacement(
-    document: vscode.TextDocument,
-    findings: KeepSortedFinding[]
-  ): Promise<string | null> {
-    if (findings.length > 1) {
+  /**
+   * Verifies the binary against the `<binary>.sha256` manifest written by
+   * `scripts/create-binaries.ts`.
+   *
+   * Every binary must have a manifest, unless `keep-sorted.allowUnverifiedBinary` lets a binary
+   * from the setting or environment run without one, such as a local build.
+   *
+   * @returns The error to fail every invocation with, or null if the binary may be run
+   */
+  private verifyIntegrity(): IntegrityError | null {
+    if (!fs.existsSync(this.binaryPath)) {
+      // Nothing can be run, the engine fallback handles it on first spawn
       return null;
     }
-    const fixes = findings[0].fixes;
-    if (fixes.length === 0) {
-      return null;
+    const manifestPath = `${this.binaryPath}.sha256`;
+    const bundled = this.binaryPath === getBundledBinaryPath(this.extensionPath);
+    let expectedHash: string | undefined;
+    try {
+      expectedHash = fs.readFileSync(manifestPath, "utf-8").trim().toLowerCase();
+    } catch {
+      if (!bundled && getConfig().allowUnverifiedBinary) {
+        const message =
+          `${this.binaryPath} has no ${path.basename(manifestPath)} manifest and is run ` +
+          `unverified since keep-sorted.allowUnverifiedBinary is enabled.`;
+        logger.warn(message);
+        void vscode.window.showWarningMessage(`${EXT_DISPLAY_NAME}: ${message}`);
+        return null;
+      }
     }
-    if (fixes.length > 1) {
+    const actualHash = sha256(this.binaryPath);
+    if (expectedHash === actualHash) {
+      logger.debug(`Verified ${this.binaryFilename} SHA256 hash ${actualHash}.`);
       return null;
     }
-    if (fixes[0].replacements.length === 0) {
-      return null;
+    const message = expectedHash
+      ? `${this.binaryPath} failed its integrity check and will not be run.`
+      : `${this.binaryPath} has no ${path.basename(manifestPath)} manifest and will not be run.`;
+    logger.error(
+      `${message} Expected SHA256 hash: ${expectedHash ?? "none"}, actual: ${actualHash}`
+    );
+    const remedy =
+      bundled || expectedHash
+        ? "Reinstall the extension or set keep-sorted.binaryPath to a trusted binary."
+        : `Write its SHA256 hash to ${path.basename(manifestPath)} or enable ` +
+          `keep-sorted.allowUnverifiedBinary.`;
+    void vscode.window.showErrorMessage(`${EXT_DISPLAY_NAME}: ${message} ${remedy}`);
+    return new IntegrityError(message, expectedHash, actualHash);
+  }
+
+  /**
+   * Detects the version of the binary by running it with `--version`.
+   *
+   * @returns The version text reported by the binary
+   *
+   * @throws KeepSortedError if the binary can't be run or exits unsuccessfully
+   * @throws IntegrityError if the binary failed verification
+   */
+  async detectVersion(): Promise<string> {
+    if (this.engineFallback) {
+      return this.engineVersion();
     }
-    if (fixes[0].replacements.length > 1) {
-      return null;
+    if (this.integrityError) {
+      throw this.integrityError;
     }
-    return fixes[0].replacements[0].new_content;
+    try {
+      const { stdout } = await execFileAsync(this.binaryPath, ["--version"], {
+        timeout: VERSION_TIMEOUT_MS,
+      });
+      this.binaryVersion = stdout.trim();
+    } catch (err: Error | unknown) {
+      if (this.fallBackToEngine(err)) {
+        return this.engineVersion();
+      }
+      throw logAndGetError(
+        logger,
+        new KeepSortedError(`Unable to detect ${this.binaryFilename} version: ${err}`, {
+          cause: err,
+        })
+      );
+    }
+    logger.info(`Detected ${this.binaryFilename} version: ${this.binaryVersion}`);
+    return this.binaryVersion;
   }
 
-  /** Fixes the specified range in the document and returns the fixed content. */
-  async fixDocument(document: vscode.TextDocument, range?: vscode.Range): Promise<string | null> {
-    const findings = await this.getFindings(document, range);
-    if (findings.length === 0) {
-      // If linting the specified range returns no findings, attempt a whole-file fix as a
-      // fallback. This handles cases where the CLI's range parsing may differ between
-      // in-memory document representations and the on-disk file.
-      const fixed = await this.fixFileText(document);
+  private engineVersion(): string {
+    this.binaryVersion = `${engine.ENGINE_VERSION} (TypeScript engine)`;
+    return this.binaryVersion;
+  }
+
+  /**
+   * Switches to the TypeScript engine if the error shows the binary can't be spawned on this
+   * platform, rather than failing every lint.
+   *
+   * @returns True if now using the engine
+   */
+  private fallBackToEngine(err: unknown): boolean {
+    if (this.engineFallback) {
+      // Already switched, such as while the invocation waited in the pool queue
+      return true;
+    }
+    if (!isSpawnFailure(err)) {
+      return false;
+    }
+    const code = errorCode(err);
+    this.engineFallback = true;
+    logger.warn(
+      `${this.binaryFilename} can't be spawned (${code}), falling back to the TypeScript engine.`
+    );
+    return true;
+  }
+
+  /**
+   * Creates edits applying every replacement suggested by the findings in the specified range, so
+   * lines outside of the unsorted blocks are left untouched.
+   *
+   * Nested blocks report overlapping replacements which can't be applied together, so the whole
+   * document is fixed instead.
+   *
+   * @param document The document to fix
+   * @param range Optional range to fix, otherwise the whole document
+   * @param token Kills the binary when cancellation is requested
+   *
+   * @returns The edits to apply to the document
+   *
+   * @throws NothingToFixError if there are no findings to fix
+   * @throws KeepSortedError if the binary call fails
+   */
+  async createTextEdits(
+    document: vscode.TextDocument,
+    range?: vscode.Range,
+    token?: vscode.CancellationToken
+  ): Promise<vscode.TextEdit[]> {
+    const editLogger = contextualizeLogger(document, range);
+    const findings = await this.getFindings(document, range, token);
+    const replacements = findings.flatMap((finding) =>
+      finding.fixes.flatMap((fix) => fix.replacements)
+    );
+    if (replacements.length === 0) {
+      throw new NothingToFixError();
+    }
+    if (hasOverlap(replacements)) {
+      editLogger.debug("Overlapping replacements found, fixing the whole document instead.");
+      const fixed = await this.fixFileText(document, token);
       if (fixed === null) {
-        // No findings to fix in either range or full-file
-        throw new Error("No findings to fix");
+        throw new NothingToFixError();
       }
-      return fixed;
+      return toDiffEdits(document, fixed);
+    }
+    editLogger.debug(`Creating ${replacements.length} replacement edit(s).`);
+    return replacements.map((replacement) =>
+      vscode.TextEdit.replace(toDocumentRange(replacement.lines), replacement.new_content)
+    );
+  }
+
+  /**
+   * Creates edits sorting only the block of a diagnostic, from that block's own finding.
+   *
+   * Unlike {@link createTextEdits} there is no whole document fallback, so other blocks are never
+   * changed.
+   *
+   * @param document The document containing the block
+   * @param blockRange The range of the block's diagnostic
+   * @param token Kills the binary when cancellation is requested
+   *
+   * @returns The edits to apply to the document
+   *
+   * @throws BlockNotFixableError explaining why if the block can't be fixed in isolation
+   */
+  async createBlockTextEdits(
+    document: vscode.TextDocument,
+    blockRange: vscode.Range,
+    token?: vscode.CancellationToken
+  ): Promise<vscode.TextEdit[]> {
+    const lines = toLineRange(blockRange);
+    const findings = await this.getFindings(document, blockRange, token);
+    const finding = findings.find(
+      (f) => f.lines.start === lines.start && f.lines.end === lines.end
+    );
+    if (!finding) {
+      throw new BlockNotFixableError(
+        `Lines ${lines.start}:${lines.end} are no longer out of order.`
+      );
     }
-    const singleReplacement = await this.getSingleReplacement(document, findings);
-    if (singleReplacement) {
-      return singleReplacement;
+    const replacements = finding.fixes.flatMap((fix) => fix.replacements);
+    if (replacements.length === 0) {
+      throw new BlockNotFixableError(`This block can't be fixed automatically: ${finding.message}`);
+    }
+    const outside = replacements.find(
+      (r) => r.lines.start < finding.lines.start || r.lines.end > finding.lines.end
+    );
+    if (outside || hasOverlap(replacements)) {
+      throw new BlockNotFixableError(
+        `This block can't be sorted in isolation since its fix changes other lines. ` +
+          `Sort the whole file instead.`
+      );
     }
-    // Fix the entire file to avoid async file writes that can lead to file corruption
-    return this.fixFileText(document);
+    return replacements.map((replacement) =>
+      vscode.TextEdit.replace(toDocumentRange(replacement.lines), replacement.new_content)
+    );
   }
 
   /**
    * Lints the provided document and returns diagnostics for any findings.
    *
    * @param document The document to lint
+   * @param token Kills the binary when cancellation is requested
    *
    * @returns An array of diagnostics
    *
-   * @throws Error if the binary call fails
+   * @throws KeepSortedError if the binary call fails
+   * @throws CancellationError if cancelled
+   * @throws TimeoutError if the binary doesn't exit within the configured timeout
    */
-  async lintDocument(document: vscode.TextDocument): Promise<vscode.Diagnostic[]> {
+  async lintDocument(
+    document: vscode.TextDocument,
+    token?: vscode.CancellationToken
+  ): Promise<vscode.Diagnostic[]> {
     const kpLogger = contextualizeLogger(document);
-    const findings = await this.getFindings(document);
-    const diagnostics: vscode.Diagnostic[] = findings.map((finding) => {
-      // Range is zero-based and end exclusive while keep-sorted lines are one-based and inclusive
-      const startPos = new vscode.Position(finding.lines.start - 1, 0);
-      const endPos = new vscode.Position(finding.lines.end, 0);
-      const range = new vscode.Range(startPos, endPos);
+    const findings = await this.getFindings(document, undefined, token);
+    const severity = getSeverity(document.uri, document.languageId);
+    const documentLines = document.getText().split(/\r?\n/);
+    for (const finding of findings) {
       kpLogger.debug(
         `${this.binaryFilename} finding for lines ${finding.lines.start}:${finding.lines.end}`
       );
-      const diagnostic = new vscode.Diagnostic(
-        range,
-        finding.message,
-        vscode.DiagnosticSeverity.Warning
-      );
-      diagnostic.source = EXT_NAME;
-      diagnostic.code = {
-        value: "help",
-        target: vscode.Uri.parse("https://github.com/google/keep-sorted/blob/main/README.md"),
-      };
-      return diagnostic;
-    });
+    }
+    const diagnostics = toDiagnostics(document.uri, documentLines, findings, severity);
 
     kpLogger.info(`${this.binaryFilename} found ${diagnostics.length} replacements.`);
     return diagnostics;
   }
 
-  private async fixFileText(document: vscode.TextDocument): Promise<string | null> {
-    const kpLogger = contextualizeLogger(document);
-    const { code, stdout, stderr } = await this.spawnCommand(
-      ["--mode", "fix", "-"],
-      document.uri,
-      document.getText()
+  /**
+   * Lints files as saved on disk, passing many of them to each binary invocation rather than
+   * spawning a process per file.
+   *
+   * A failing batch is linted again one file at a time, so only the files that fail on their own
+   * are reported as failures.
+   *
+   * @param uris The files to lint
+   * @param token Kills the binaries when cancellation is requested
+   * @param onProgress Called with the number of files linted so far as each batch completes
+   *
+   * @returns The diagnostics of every linted file and the files that couldn't be linted
+   *
+   * @throws CancellationError if cancelled
+   * @throws IntegrityError if the binary failed verification
+   */
+  async lintFiles(
+    uris: vscode.Uri[],
+    token?: vscode.CancellationToken,
+    onProgress?: (linted: number) => void
+  ): Promise<LintFilesResult> {
+    const batches = toBatches(uris);
+    logger.info(`Linting ${uris.length} files in ${batches.length} batches.`);
+    let linted = 0;
+    const results = await Promise.all(
+      batches.map(async (batch) => {
+        const result = await this.lintBatch(batch, token);
+        linted += batch.length;
+        onProgress?.(linted);
+        return result;
+      })
     );
+    return {
+      diagnostics: results.flatMap((result) => result.diagnostics),
+      failures: results.flatMap((result) => result.failures),
+    };
+  }
+
+  private async lintBatch(
+    files: vscode.Uri[],
+    token?: vscode.CancellationToken
+  ): Promise<LintFilesResult> {
+    let findings: KeepSortedFinding[];
+    try {
+      findings = await this.runBatchLint(files, token);
+    } catch (err: Error | unknown) {
+      // Failures that recur for every file fail them all
+      if (err instanceof vscode.CancellationError || reactionTo(err) === "disable") {
+        throw err;
+      }
+      if (files.length === 1) {
+        contextualizeLogger(files[0]).warn(`Unable to lint file: ${err}`);
+        return { diagnostics: [], failures: [{ uri: files[0], error: err }] };
+      }
+      logger.warn(
+        `Linting a batch of ${files.length} files failed, linting each on its own: ${err}`
+      );
+      const results = await Promise.all(files.map((file) => this.lintBatch([file], token)));
+      return {
+        diagnostics: results.flatMap((result) => result.diagnostics),
+        failures: results.flatMap((result) => result.failures),
+      };
+    }
+    const findingsByPath = new Map<string, KeepSortedFinding[]>(
+      files.map((uri) => [uri.fsPath, []])
+    );
+    for (const finding of findings) {
+      const pathFindings = findingsByPath.get(finding.path);
+      if (!pathFindings) {
+        logger.warn(`Ignoring ${this.binaryFilename} finding for unexpected path ${finding.path}`);
+        continue;
+      }
+      pathFindings.push(finding);
+    }
+    const diagnostics = await Promise.all(
+      files.map(async (uri): Promise<[vscode.Uri, vscode.Diagnostic[]]> => {
+        const fileFindings = findingsByPath.get(uri.fsPath)!;
+        if (fileFindings.length === 0 && !(await this.hasDirectiveProblems(uri))) {
+          return [uri, []];
+        }
+        // Only files with findings or directive problems are opened, for their language, misplaced
+        // lines and directive problems
+        const document = await workspace.findOrOpenDocument(uri);
+        const severity = getSeverity(uri, document?.languageId);
+        const documentLines = document?.getText().split(/\r?\n/) ?? [];
+        return [uri, toDiagnostics(uri, documentLines, fileFindings, severity)];
+      })
+    );
+    return { diagnostics, failures: [] };
+  }
+
+  /**
+   * Checks whether a file has directive problems, which the binary doesn't report, such as an
+   * unknown option in an otherwise sorted block. The file is read rather than opened since most
+   * files have no directives at all.
+   */
+  private async hasDirectiveProblems(uri: vscode.Uri): Promise<boolean> {
+    let text: string;
+    try {
+      text = await this.pool.run(() => fs.promises.readFile(uri.fsPath, "utf-8"));
+    } catch (err: Error | unknown) {
+      contextualizeLogger(uri).debug(`Unable to read file for directive problems: ${err}`);
+      return false;
+    }
+    if (!text.includes(START_DIRECTIVE) && !text.includes(END_DIRECTIVE)) {
+      return false;
+    }
+    return findDirectiveProblems(text.split(/\r?\n/)).length > 0;
+  }
+
+  /** Logs the command line the binary is run with, such as after the configuration changes. */
+  logCommandLine(): void {
+    const command = this.engineFallback
+      ? `TypeScript engine with default options "${getConfig().defaultOptions}"`
+      : `${this.binaryPath} --mode <lint|fix> ${configuredArgs().join(" ")} <files>`;
+    logger.info(`Effective keep-sorted command line: ${command}`);
+  }
+
+  /** Clears cached results, such as when the configuration changes. */
+  clearCache(): void {
+    this.findingsCache.clear();
+    this.fixCache.clear();
+  }
+
+  private resultKey(document: vscode.TextDocument, args: string[]): ResultKey {
+    const version = this.engineFallback
+      ? engine.ENGINE_VERSION
+      : (this.binaryVersion ?? this.binaryPath);
+    return { uri: document.uri, text: lfText(document), version, args };
+  }
+
+  private async fixFileText(
+    document: vscode.TextDocument,
+    token?: vscode.CancellationToken
+  ): Promise<string | null> {
+    const args = ["--mode", "fix", ...configuredArgs(), "-"];
+    const fixed = await this.fixCache.getOrCreate(this.resultKey(document, args), () =>
+      this.runFix(document, args, token)
+    );
+    return fixed === null ? null : withDocumentEol(document, fixed);
+  }
+
+  private async runFix(
+    document: vscode.TextDocument,
+    args: string[],
+    token?: vscode.CancellationToken
+  ): Promise<string | null> {
+    const kpLogger = contextualizeLogger(document);
+    if (this.engineFallback) {
+      return engine.fix(lfText(document), getConfig().defaultOptions);
+    }
+    let result: SpawnResult;
+    try {
+      result = await this.spawnCommand(args, { uri: document.uri, stdin: lfText(document) }, token);
+    } catch (err: Error | unknown) {
+      if (this.fallBackToEngine(err)) {
+        return this.runFix(document, args, token);
+      }
+      throw err;
+    }
+    const { code, stdout, stderr } = result;
     if (code === 0) {
       // No issues found
       return null;
@@ -175,31 +723,95 @@ export class KeepSorted {
       // Issues found and fixed, return fixed content
       return stdout;
     }
-    throw logAndGetError(kpLogger, `${this.binaryFilename} failed with code ${code}: ${stderr}`);
+    throw logAndGetError(kpLogger, new BinaryCrashedError(this.binaryFilename, code, stderr));
   }
 
   private async getFindings(
     document: vscode.TextDocument,
-    range?: vscode.Range
+    range?: vscode.Range,
+    token?: vscode.CancellationToken
   ): Promise<KeepSortedFinding[]> {
-    const kpLogger = contextualizeLogger(document);
-    const args = range
-      ? (() => {
-          const startOneBased = range.start.line + 1;
-          let endOneBased = range.end.line;
-          // If the provided end value appears to be zero-based and is less than the start,
-          // normalize it to the start to ensure the CLI receives a valid inclusive range.
-          if (endOneBased < startOneBased) {
-            endOneBased = startOneBased;
-          }
-          return ["--mode", "lint", "--lines", `${startOneBased}:${endOneBased}`, "-"];
-        })()
-      : ["--mode", "lint", "-"];
-    const { code, stdout, stderr } = await this.spawnCommand(
-      args,
-      document.uri,
-      document.getText()
+    const lines = range ? toLineRange(range) : undefined;
+    const args = [
+      "--mode",
+      "lint",
+      ...(lines ? ["--lines", `${lines.start}:${lines.end}`] : []),
+      ...configuredArgs(),
+      "-",
+    ];
+    const findings = await this.findingsCache.getOrCreate(this.resultKey(document, args), () =>
+      this.runLint(document, args, lines, token)
     );
+    if (document.eol !== vscode.EndOfLine.CRLF) {
+      return findings;
+    }
+    // Copied rather than updated in place since the cached findings are shared
+    return findings.map((finding) => ({
+      ...finding,
+      fixes: finding.fixes.map((fix) => ({
+        replacements: fix.replacements.map((replacement) => ({
+          ...replacement,
+          new_content: withDocumentEol(document, replacement.new_content),
+        })),
+      })),
+    }));
+  }
+
+  private async runLint(
+    document: vscode.TextDocument,
+    args: string[],
+    lines?: engine.LineRange,
+    token?: vscode.CancellationToken
+  ): Promise<KeepSortedFinding[]> {
+    const kpLogger = contextualizeLogger(document);
+    if (this.engineFallback) {
+      return engine.lint(lfText(document), "-", lines, getConfig().defaultOptions);
+    }
+    let result: SpawnResult;
+    try {
+      result = await this.spawnCommand(args, { uri: document.uri, stdin: lfText(document) }, token);
+    } catch (err: Error | unknown) {
+      if (this.fallBackToEngine(err)) {
+        return this.runLint(document, args, lines, token);
+      }
+      throw err;
+    }
+    return this.parseFindings(result, kpLogger);
+  }
+
+  private async runBatchLint(
+    files: vscode.Uri[],
+    token?: vscode.CancellationToken
+  ): Promise<KeepSortedFinding[]> {
+    if (this.engineFallback) {
+      // Read through the pool so a large workspace doesn't open every file at once
+      const fileFindings = await Promise.all(
+        files.map(async (file) => {
+          const text = await this.pool.run(() => fs.promises.readFile(file.fsPath, "utf-8"));
+          return engine.lint(
+            text.replace(/\r\n/g, "\n"),
+            file.fsPath,
+            undefined,
+            getConfig().defaultOptions
+          );
+        })
+      );
+      return fileFindings.flat();
+    }
+    let result: SpawnResult;
+    try {
+      result = await this.spawnCommand(["--mode", "lint", ...configuredArgs()], { files }, token);
+    } catch (err: Error | unknown) {
+      if (this.fallBackToEngine(err)) {
+        return this.runBatchLint(files, token);
+      }
+      throw err;
+    }
+    return this.parseFindings(result, logger);
+  }
+
+  private parseFindings(result: SpawnResult, kpLogger: winston.Logger): KeepSortedFinding[] {
+    const { code, stdout, stderr } = result;
     if (code === 0) {
       // No issues found
       return [];
@@ -208,21 +820,53 @@ export class KeepSorted {
       try {
         return JSON.parse(stdout);
       } catch (parseError) {
-        throw logAndGetError(kpLogger, `Failed to parse command output: ${parseError}`);
+        throw logAndGetError(kpLogger, new MalformedOutputError(stdout, { cause: parseError }));
       }
     }
-    throw logAndGetError(kpLogger, `${this.binaryFilename} failed with code ${code}: ${stderr}`);
+    throw logAndGetError(kpLogger, new BinaryCrashedError(this.binaryFilename, code, stderr));
   }
 
+  /**
+   * Runs the binary once the process pool has a free slot, unless it has been paused after failing
+   * repeatedly.
+   */
   private async spawnCommand(
     args: string[],
-    uri: vscode.Uri,
-    stdin: string
-  ): Promise<{ code: number; stdout: string; stderr: string }> {
+    input: SpawnInput,
+    token?: vscode.CancellationToken
+  ): Promise<SpawnResult> {
+    if (this.integrityError) {
+      throw this.integrityError;
+    }
+    return this.breaker.run(
+      () => this.pool.run(() => this.spawnProcess(args, input, token)),
+      (result) => result.code !== 0 && result.code !== 1,
+      // Not failures of a running binary, since the caller falls back to the engine instead
+      (err) => this.engineFallback || isSpawnFailure(err)
+    );
+  }
+
+  private async spawnProcess(
+    args: string[],
+    input: SpawnInput,
+    token?: vscode.CancellationToken
+  ): Promise<SpawnResult> {
+    // Cancelled while waiting in the pool queue
+    if (token?.isCancellationRequested) {
+      throw new vscode.CancellationError();
+    }
+    // Switched to the engine while waiting in the pool queue, which the caller then uses too
+    if (this.engineFallback) {
+      throw new BinaryNotFoundError(this.binaryPath);
+    }
     return new Promise((resolve, reject) => {
-      const spawnLogger = contextualizeLogger(uri);
+      const stdinInput = "stdin" in input ? input : undefined;
+      const files = "files" in input ? input.files : [];
+      const spawnLogger = stdinInput ? contextualizeLogger(stdinInput.uri) : logger;
       // <binary> <args> <document paths>...
-      const command = `${this.binaryFilename} ${args.join(" ")} ${uri.fsPath}`;
+      const command = stdinInput
+        ? `${this.binaryFilename} ${args.join(" ")} ${stdinInput.uri.fsPath}`
+        : `${this.binaryFilename} ${args.join(" ")} <${files.length} files>`;
       spawnLogger.debug(`Spawning "${command}"`);
 
       const startTime = performance.now();
@@ -231,22 +875,51 @@ export class KeepSorted {
         return `${(endTime - startTime).toFixed(0)}ms`;
       }
 
-      const child = spawn(this.binaryPath, args, {
+      const child = spawn(this.binaryPath, [...args, ...files.map((file) => file.fsPath)], {
         stdio: ["pipe", "pipe", "pipe"],
       });
 
-      let stdout = "";
-      let stderr = "";
+      // Kill the process rather than leave the promise pending forever on a hung binary, allowing
+      // each file of a batch the time of a single document up to the batch maximum
+      const configuredMs = getConfig().timeoutMs;
+      const timeoutMs = Math.min(
+        configuredMs * Math.max(1, files.length),
+        Math.max(configuredMs, MAX_BATCH_TIMEOUT_MS)
+      );
+      const timeout =
+        timeoutMs > 0
+          ? setTimeout(() => {
+              spawnLogger.warn(`${command} timed out after ${timeoutMs}ms, killing it.`);
+              child.kill();
+              reject(new TimeoutError(`${command} timed out after ${timeoutMs}ms`, timeoutMs));
+            }, timeoutMs)
+          : undefined;
+      const cancellation = token?.onCancellationRequested(() => {
+        spawnLogger.debug(`${command} cancelled, killing it.`);
+        child.kill();
+        reject(new vscode.CancellationError());
+      });
+      const cleanUp = () => {
+        clearTimeout(timeout);
+        cancellation?.dispose();
+      };
 
-      child.stdout.on("data", (data) => {
-        stdout += data.toString();
+      // Decoded once on close since a multi-byte character can be split across chunks
+      const stdoutChunks: Buffer[] = [];
+      const stderrChunks: Buffer[] = [];
+
+      child.stdout.on("data", (data: Buffer) => {
+        stdoutChunks.push(data);
       });
 
-      child.stderr.on("data", (data) => {
-        stderr += data.toString();
+      child.stderr.on("data", (data: Buffer) => {
+        stderrChunks.push(data);
       });
 
       child.on("close", (code) => {
+        cleanUp();
+        const stdout = Buffer.concat(stdoutChunks).toString("utf-8");
+        const stderr = Buffer.concat(stderrChunks).toString("utf-8");
         spawnLogger.debug(`${command} exited (time: ${getExecTimeText()}, code: ${code})`);
         if (code !== 0 && code !== 1) {
           spawnLogger.error(`${command} error output: ${stderr}`);
@@ -255,18 +928,25 @@ export class KeepSorted {
       });
 
       child.on("error", (error) => {
+        cleanUp();
         spawnLogger.error(
           `Failed to spawn ${command}: ${error.message} (time: ${getExecTimeText()})`
         );
         const errorMessage = `Failed to spawn ${command}: ${error.message} (time: ${getExecTimeText()})`;
         spawnLogger.error(errorMessage);
-        reject(new Error(errorMessage));
+        reject(
+          (error as NodeJS.ErrnoException).code === "ENOENT"
+            ? new BinaryNotFoundError(this.binaryPath, { cause: error })
+            : new KeepSortedError(errorMessage, { cause: error })
+        );
       });
 
       // Write text content to stdin
-      child.stdin.write(stdin);
+      if (stdinInput) {
+        child.stdin.write(stdinInput.stdin, "utf-8");
+        spawnLogger.debug(`Processed document with size ${stdinInput.stdin.length}.`);
+      }
       child.stdin.end();
-      spawnLogger.debug(`Processed document with size ${stdin.length}.`);
     });
   }
 }
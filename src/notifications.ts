@@ -0,0 +1,110 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { RateLimiter } from "limiter";
+import { disableForSession, excludeFile } from "./configuration";
+import { EXT_DISPLAY_NAME, logger, showLogs } from "./instrumentation";
+
+/** Actions offered on failure notifications. */
+export const OPEN_LOGS = "Open Keep Sorted logs";
+export const EXCLUDE_FILE = "Exclude this file";
+export const DISABLE_FOR_SESSION = "Disable for this session";
+
+/** Default maximum number of failure notifications shown per minute. */
+const DEFAULT_NOTIFICATIONS_PER_MINUTE = 3;
+
+/** Options of a failure notification. */
+export interface FailureOptions {
+  /** The document that failed, if any, to group failures by and offer excluding it */
+  readonly uri?: vscode.Uri;
+  /** Whether the extension was already disabled because of the failure */
+  readonly disabled?: boolean;
+}
+
+/**
+ * Shows failures to the user with actions to recover from them.
+ *
+ * Failures are grouped per document: while a document's notification is open, further failures of
+ * the same document are only counted and included in its next notification. Notifications are also
+ * rate limited so a broken binary failing on every keystroke doesn't flood the user; failures
+ * beyond the limit are only logged.
+ */
+export class FailureNotifier {
+  private readonly limiter: RateLimiter;
+  /** Failures per document not shown yet, keyed by URI or empty for failures without one */
+  private readonly unshown = new Map<string, number>();
+  /** Documents with a notification currently open */
+  private readonly open = new Set<string>();
+
+  constructor(notificationsPerMinute = DEFAULT_NOTIFICATIONS_PER_MINUTE) {
+    this.limiter = new RateLimiter({
+      tokensPerInterval: notificationsPerMinute,
+      interval: "minute",
+    });
+  }
+
+  /**
+   * Notifies the user of a failure unless grouped with an open notification or rate limited.
+   *
+   * @param message The failure message
+   * @param options The document that failed and whether the extension was disabled
+   *
+   * @returns Resolves once the notification is dismissed or its action is done
+   */
+  async notify(message: string, options: FailureOptions = {}): Promise<void> {
+    const key = options.uri?.toString() ?? "";
+    const failures = (this.unshown.get(key) ?? 0) + 1;
+    if (this.open.has(key) || !this.limiter.tryRemoveTokens(1)) {
+      logger.debug(`Failure notification suppressed (${failures} unshown): ${message}`);
+      this.unshown.set(key, failures);
+      return;
+    }
+    this.unshown.delete(key);
+    this.open.add(key);
+    try {
+      const choice = await vscode.window.showErrorMessage(
+        notificationText(message, failures, options),
+        ...notificationActions(options)
+      );
+      await this.runAction(choice, options);
+    } finally {
+      this.open.delete(key);
+    }
+  }
+
+  private async runAction(choice: string | undefined, options: FailureOptions): Promise<void> {
+    switch (choice) {
+      case OPEN_LOGS:
+        showLogs();
+        break;
+      case EXCLUDE_FILE:
+        await excludeFile(options.uri!);
+        break;
+      case DISABLE_FOR_SESSION:
+        disableForSession();
+        break;
+    }
+  }
+}
+
+function notificationText(message: string, failures: number, options: FailureOptions): string {
+  const where = options.uri ? ` in ${path.basename(options.uri.fsPath)}` : "";
+  const times = failures > 1 ? ` (${failures} times)` : "";
+  const disabled = options.disabled
+    ? " The extension is disabled until the window is reloaded."
+    : "";
+  return `${EXT_DISPLAY_NAME} failed${where}${times}: ${message}${disabled}`;
+}
+
+function notificationActions(options: FailureOptions): string[] {
+  const actions = [OPEN_LOGS];
+  if (options.uri) {
+    actions.push(EXCLUDE_FILE);
+  }
+  if (!options.disabled) {
+    actions.push(DISABLE_FOR_SESSION);
+  }
+  return actions;
+}
+
+/** Singleton notifier for the keep-sorted extension. */
+export const notifier = new FailureNotifier();
@@ -0,0 +1,87 @@
+import * as vscode from "vscode";
+import { DirectivePair, matchDirectives, parseDirectives, START_DIRECTIVE } from "./directives";
+
+/** Maximum length of the first item shown in the name of a block symbol. */
+const MAX_ITEM_LENGTH = 40;
+
+/** Gets the directive pairs of a document. */
+function findPairs(document: vscode.TextDocument): { pairs: DirectivePair[]; lines: string[] } {
+  const lines = document.getText().split(/\r?\n/);
+  return { pairs: matchDirectives(parseDirectives(lines)).pairs, lines };
+}
+
+/** Names a block after its options and first item, such as `keep-sorted numeric=yes: alpha`. */
+function blockName(lines: string[], { start, end }: DirectivePair): string {
+  const options = start.options.map(({ key, value }) => `${key}=${value}`).join(" ");
+  const directive = options ? `keep-sorted ${options}` : "keep-sorted";
+  const item = lines.slice(start.line + 1, end.line).find((line) => line.trim() !== "");
+  if (item === undefined) {
+    return directive;
+  }
+  const text = item.trim();
+  const shortened = text.length > MAX_ITEM_LENGTH ? `${text.slice(0, MAX_ITEM_LENGTH)}…` : text;
+  return `${directive}: ${shortened}`;
+}
+
+/** Nests the symbols by their ranges, returning the outermost ones. */
+function nest(symbols: vscode.DocumentSymbol[]): vscode.DocumentSymbol[] {
+  // Outer symbols come before the symbols they contain
+  const sorted = [...symbols].sort(
+    (a, b) => a.range.start.compareTo(b.range.start) || b.range.end.compareTo(a.range.end)
+  );
+  const roots: vscode.DocumentSymbol[] = [];
+  const open: vscode.DocumentSymbol[] = [];
+  for (const symbol of sorted) {
+    while (open.length > 0 && !open[open.length - 1].range.contains(symbol.range)) {
+      open.pop();
+    }
+    (open.length > 0 ? open[open.length - 1].children : roots).push(symbol);
+    open.push(symbol);
+  }
+  return roots;
+}
+
+/**
+ * Provides keep-sorted blocks as folding regions and outline symbols, so blocks can be folded and
+ * jumped to from the Outline view and breadcrumbs.
+ */
+export class OutlineProvider implements vscode.FoldingRangeProvider, vscode.DocumentSymbolProvider {
+  provideFoldingRanges(document: vscode.TextDocument): vscode.FoldingRange[] {
+    return findPairs(document).pairs.map(
+      ({ start, end }) =>
+        new vscode.FoldingRange(start.line, end.line, vscode.FoldingRangeKind.Region)
+    );
+  }
+
+  /**
+   * Provides a symbol for every block, with nested blocks inside their outer block.
+   *
+   * Code symbols aren't fetched to nest blocks in, since VS Code shares one pending request for the
+   * symbols of a document, which would then wait on itself.
+   */
+  provideDocumentSymbols(document: vscode.TextDocument): vscode.DocumentSymbol[] {
+    const { pairs, lines } = findPairs(document);
+    const blocks = pairs.map((pair) => {
+      const range = new vscode.Range(
+        pair.start.line,
+        0,
+        pair.end.line,
+        lines[pair.end.line].length
+      );
+      const selectionRange = new vscode.Range(
+        pair.start.line,
+        pair.start.column,
+        pair.start.line,
+        pair.start.column + START_DIRECTIVE.length
+      );
+      return new vscode.DocumentSymbol(
+        blockName(lines, pair),
+        "",
+        vscode.SymbolKind.Array,
+        range,
+        selectionRange
+      );
+    });
+    return nest(blocks);
+  }
+}
@@ -0,0 +1,66 @@
+import { RateLimiter } from "limiter";
+import { getConfig } from "./configuration";
+import { logQueueStats } from "./instrumentation";
+
+/**
+ * Bounded pool of keep-sorted process invocations.
+ *
+ * Invocations beyond the concurrency limit wait in a FIFO queue, so linting every file on
+ * activation doesn't start hundreds of processes at once. The limit is read on every dequeue, so
+ * changes to `keep-sorted.maxConcurrentProcesses` apply without a reload.
+ */
+export class ProcessPool {
+  private readonly maxConcurrent: () => number;
+  private readonly pending: (() => void)[] = [];
+  // Queue stats are logged at info level at most once a second to avoid flooding the output
+  private readonly statsLimiter = new RateLimiter({ tokensPerInterval: 1, interval: "second" });
+  private active = 0;
+
+  constructor(maxConcurrent: () => number = () => getConfig().maxConcurrentProcesses) {
+    this.maxConcurrent = maxConcurrent;
+  }
+
+  /** Number of invocations waiting for a free slot. */
+  get queued(): number {
+    return this.pending.length;
+  }
+
+  /** Number of invocations currently running. */
+  get running(): number {
+    return this.active;
+  }
+
+  /**
+   * Runs the invocation once a slot is free.
+   *
+   * @param invocation The invocation to run
+   *
+   * @returns The result of the invocation
+   */
+  async run<T>(invocation: () => Promise<T>): Promise<T> {
+    const enqueuedAt = performance.now();
+    await new Promise<void>((resolve) => {
+      this.pending.push(resolve);
+      this.drain();
+    });
+    const stats = {
+      queued: this.pending.length,
+      active: this.active,
+      waitMs: performance.now() - enqueuedAt,
+    };
+    logQueueStats(stats, stats.queued > 0 && this.statsLimiter.tryRemoveTokens(1));
+    try {
+      return await invocation();
+    } finally {
+      this.active--;
+      this.drain();
+    }
+  }
+
+  private drain(): void {
+    while (this.pending.length > 0 && this.active < Math.max(1, this.maxConcurrent())) {
+      this.active++;
+      this.pending.shift()!();
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import * as vscode from "vscode";
+
+/**
+ * Applies text edits to the document's text without changing the document.
+ *
+ * @param document The document the edits are for
+ * @param edits Edits that don't overlap, in any order
+ *
+ * @returns The text of the document with the edits applied
+ */
+export function applyTextEdits(document: vscode.TextDocument, edits: vscode.TextEdit[]): string {
+  // Apply from the end so earlier offsets stay valid
+  const sorted = [...edits].sort(
+    (a, b) => document.offsetAt(b.range.start) - document.offsetAt(a.range.start)
+  );
+  let text = document.getText();
+  for (const edit of sorted) {
+    const start = document.offsetAt(edit.range.start);
+    const end = document.offsetAt(edit.range.end);
+    text = text.slice(0, start) + edit.newText + text.slice(end);
+  }
+  return text;
+}
+
+/**
+ * Provides the read-only fixed text of documents being previewed, shown in a diff against the
+ * document before the fix is applied.
+ */
+export class PreviewContentProvider
+  implements vscode.TextDocumentContentProvider, vscode.Disposable
+{
+  static readonly scheme = "keep-sorted-preview";
+
+  private readonly contents = new Map<string, string>();
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+
+  readonly onDidChange = this.changeEmitter.event;
+
+  /**
+   * Sets the fixed text to preview for a document.
+   *
+   * @returns The URI of the preview, replacing any earlier preview of the document
+   */
+  show(documentUri: vscode.Uri, text: string): vscode.Uri {
+    const uri = vscode.Uri.from({
+      scheme: PreviewContentProvider.scheme,
+      path: documentUri.path,
+      query: documentUri.toString(),
+    });
+    this.contents.set(uri.toString(), text);
+    this.changeEmitter.fire(uri);
+    return uri;
+  }
+
+  /** Forgets the text of a preview once it is applied or discarded. */
+  delete(uri: vscode.Uri): void {
+    this.contents.delete(uri.toString());
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.contents.get(uri.toString()) ?? "";
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
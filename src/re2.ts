@@ -0,0 +1,111 @@
+/**
+ * Support for `by_regex` patterns, which the binary compiles with Go's RE2 syntax rather than
+ * JavaScript's.
+ *
+ * RE2 has inline flags such as `(?i)` that JavaScript rejects, and lacks lookarounds and
+ * backreferences that JavaScript accepts, so patterns are checked against RE2 before being
+ * converted.
+ */
+
+/** An RE2 flag group such as `(?i)`, `(?s-i:` or the non-capturing `(?:`. */
+const FLAG_GROUP = /^\(\?([imsU]*)(?:-([imsU]*))?([:)])/;
+
+/** A named group, as `(?P<name>` or `(?<name>`. */
+const NAMED_GROUP = /^\(\?P?<(\w+)>/;
+
+/** A lookahead or lookbehind. */
+const LOOKAROUND = /^\(\?(?:=|!|<=|<!)/;
+
+/** An RE2 pattern converted to JavaScript. */
+interface Conversion {
+  /** The JavaScript source, without the flag groups */
+  readonly source: string;
+  /** The JavaScript flags of a flag group starting the pattern */
+  readonly flags: string;
+  /** Whether JavaScript matches the same as RE2, which it can't for flags scoped to part of it */
+  readonly exact: boolean;
+}
+
+/**
+ * Converts the pattern from RE2 to JavaScript.
+ *
+ * @returns The conversion, or why the pattern isn't valid RE2
+ */
+function convert(pattern: string): Conversion | string {
+  let source = "";
+  let flags = "";
+  let exact = true;
+  let inClass = false;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "\\") {
+      const next = pattern[i + 1] ?? "";
+      if (!inClass && /[1-9]/.test(next)) {
+        return "RE2 doesn't support backreferences";
+      }
+      source += char + next;
+      i++;
+    } else if (inClass) {
+      inClass = char !== "]";
+      source += char;
+    } else if (char === "[") {
+      // A closing bracket right after the opening one, or its negation, is literal
+      const literal = /^\[\^?\]/.exec(pattern.slice(i))?.[0] ?? char;
+      inClass = true;
+      source += literal;
+      i += literal.length - 1;
+    } else if (char === "(" && pattern[i + 1] === "?") {
+      const rest = pattern.slice(i);
+      if (LOOKAROUND.test(rest)) {
+        return "RE2 doesn't support lookarounds";
+      }
+      const named = NAMED_GROUP.exec(rest);
+      const flagGroup = FLAG_GROUP.exec(rest);
+      if (named) {
+        source += `(?<${named[1]}>`;
+        i += named[0].length - 1;
+      } else if (flagGroup && flagGroup[0] !== "(?)" && flagGroup[0] !== "(?-)") {
+        const [group, enabled, disabled, end] = flagGroup;
+        if (end === ")" && i === 0 && !disabled && !enabled.includes("U")) {
+          flags = enabled;
+        } else if (enabled || disabled !== undefined) {
+          exact = false;
+        }
+        source += end === ":" ? "(?:" : "";
+        i += group.length - 1;
+      } else {
+        return `RE2 doesn't support the group "${rest.slice(0, 3)}"`;
+      }
+    } else {
+      source += char;
+    }
+  }
+  // Everything else, such as unbalanced parentheses, is invalid in both
+  try {
+    new RegExp(source, flags);
+  } catch (err: Error | unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    return message.slice(message.lastIndexOf(": ") + 2);
+  }
+  return { source, flags, exact };
+}
+
+/** Gets why the pattern isn't valid RE2, or undefined if it is. */
+export function re2Error(pattern: string): string | undefined {
+  const conversion = convert(pattern);
+  return typeof conversion === "string" ? conversion : undefined;
+}
+
+/**
+ * Converts the RE2 pattern to a JavaScript regular expression matching the same.
+ *
+ * @returns The regular expression, or undefined if the pattern is invalid or uses flags for only
+ *   part of it, which JavaScript can't express
+ */
+export function toRegExp(pattern: string): RegExp | undefined {
+  const conversion = convert(pattern);
+  if (typeof conversion === "string" || !conversion.exact) {
+    return undefined;
+  }
+  return new RegExp(conversion.source, conversion.flags);
+}
@@ -0,0 +1,109 @@
+import * as vscode from "vscode";
+import { logger } from "./instrumentation";
+import { plural } from "./workspace";
+
+/** Fixes proposed for one file of the workspace. */
+export interface FileFix {
+  readonly uri: vscode.Uri;
+  readonly blocksSorted: number;
+  readonly duplicatesRemoved: number;
+}
+
+/** A file whose fix couldn't be created. */
+export interface FileFailure {
+  readonly uri: vscode.Uri;
+  readonly message: string;
+}
+
+/** Outcome of fixing the whole workspace. */
+export interface WorkspaceFixReport {
+  readonly filesScanned: number;
+  readonly fixes: FileFix[];
+  readonly failures: FileFailure[];
+  /** Whether the fixes were applied, false if there were none or the preview was discarded */
+  readonly applied: boolean;
+}
+
+/** Action of the summary notification opening the full report. */
+export const OPEN_REPORT = "Open Report";
+
+/** Counts the non-blank lines of the text, by line. */
+function countLines(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const line of text.split(/\r?\n/)) {
+    if (line.trim() !== "") {
+      counts.set(line, (counts.get(line) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+/**
+ * Counts the lines the edits remove rather than move, which for sorting are the duplicates removed
+ * by `remove_duplicates`. Blank lines aren't counted since `newline_separated` adds and removes
+ * those.
+ */
+export function countRemovedLines(document: vscode.TextDocument, edits: vscode.TextEdit[]): number {
+  let removed = 0;
+  for (const edit of edits) {
+    const remaining = countLines(edit.newText);
+    for (const [line, count] of countLines(document.getText(edit.range))) {
+      removed += Math.max(0, count - (remaining.get(line) ?? 0));
+    }
+  }
+  return removed;
+}
+
+/** Summarizes the report in a single sentence for a notification. */
+export function summarize(report: WorkspaceFixReport): string {
+  const blocks = report.fixes.reduce((sum, fix) => sum + fix.blocksSorted, 0);
+  const duplicates = report.fixes.reduce((sum, fix) => sum + fix.duplicatesRemoved, 0);
+  const outcome = !report.applied && report.fixes.length > 0 ? " Nothing was applied." : "";
+  return (
+    `Keep Sorted scanned ${plural(report.filesScanned, "file")}: ` +
+    `${plural(report.fixes.length, "file")} changed, ${plural(blocks, "block")} sorted, ` +
+    `${plural(duplicates, "duplicate")} removed, ${plural(report.failures.length, "failure")}.` +
+    outcome
+  );
+}
+
+/** Formats the report as Markdown, listing every changed and failed file. */
+export function toMarkdown(report: WorkspaceFixReport): string {
+  const lines = ["# Keep Sorted workspace fix", "", summarize(report), ""];
+  if (report.fixes.length > 0) {
+    lines.push("## Changed files", "");
+    for (const fix of report.fixes) {
+      lines.push(
+        `- ${vscode.workspace.asRelativePath(fix.uri)}: ${plural(fix.blocksSorted, "block")} ` +
+          `sorted, ${plural(fix.duplicatesRemoved, "duplicate")} removed`
+      );
+    }
+    lines.push("");
+  }
+  if (report.failures.length > 0) {
+    lines.push("## Failures", "");
+    for (const failure of report.failures) {
+      lines.push(`- ${vscode.workspace.asRelativePath(failure.uri)}: ${failure.message}`);
+    }
+    lines.push("");
+  }
+  return lines.join("\n");
+}
+
+/** Shows the summary of the report, with an action opening the full report in an editor. */
+export async function showSummary(report: WorkspaceFixReport): Promise<void> {
+  const summary = summarize(report);
+  logger.info(summary);
+  const show =
+    report.failures.length > 0
+      ? vscode.window.showWarningMessage
+      : vscode.window.showInformationMessage;
+  const choice = await show(summary, OPEN_REPORT);
+  if (choice === OPEN_REPORT) {
+    const document = await vscode.workspace.openTextDocument({
+      content: toMarkdown(report),
+      language: "markdown",
+    });
+    await vscode.window.showTextDocument(document);
+  }
+}
@@ -21,7 +21,15 @@ const KEEP_SORTED_SOURCE = "keep-sorted";
 const TEST_WORKSPACE = path.join(__dirname, "..", "..", "test-workspace");
 const MIXED_BLOCKS_FILE = path.join(TEST_WORKSPACE, "mixed_blocks.ts");
 
-const ACTION_COUNT = 3;
+const ACTION_COUNT = 4;
+const BLOCK_ACTION_TITLE = /^Sort all lines in block \[[\d:]+\] \(keep-sorted\)$/;
+
+const ANY_CONTEXT: vscode.CodeActionContext = {
+  diagnostics: [],
+  only: undefined,
+  triggerKind: vscode.CodeActionTriggerKind.Invoke,
+};
+const ANY_TOKEN = new vscode.CancellationTokenSource().token;
 
 describe("actions", () => {
   describe("ActionProvider", () => {
@@ -79,7 +87,7 @@ describe("actions", () => {
         diagnostics.set(document.uri, [diagnostic]);
 
         // Act
-        const actions = await provider.provideCodeActions(document, range);
+        const actions = await provider.provideCodeActions(document, range, ANY_CONTEXT, ANY_TOKEN);
 
         // Assert
         expect(actions).to.have.length(ACTION_COUNT);
@@ -89,7 +97,7 @@ describe("actions", () => {
         // Arrange - Real diagnostics collection is empty by default
 
         // Act
-        const actions = await provider.provideCodeActions(document, range);
+        const actions = await provider.provideCodeActions(document, range, ANY_CONTEXT, ANY_TOKEN);
 
         // Assert
         void expect(actions).to.be.an("array").that.is.empty;
@@ -100,7 +108,7 @@ describe("actions", () => {
         diagnostics.set(document.uri, []);
 
         // Act
-        const actions = await provider.provideCodeActions(document, range);
+        const actions = await provider.provideCodeActions(document, range, ANY_CONTEXT, ANY_TOKEN);
 
         // Assert
         void expect(actions).to.be.an("array").that.is.empty;
@@ -117,13 +125,13 @@ describe("actions", () => {
         diagnostics.set(document.uri, [diagnostic]);
 
         // Act
-        const actions = await provider.provideCodeActions(document, range);
+        const actions = await provider.provideCodeActions(document, range, ANY_CONTEXT, ANY_TOKEN);
 
         // Assert
         expect(actions).to.have.length(ACTION_COUNT);
 
         // First action should be block fix
-        expect(actions![0].title).to.equal("Sort all lines in block (keep-sorted)");
+        expect(actions![0].title).to.match(BLOCK_ACTION_TITLE);
         expect(actions![0].kind).to.equal(vscode.CodeActionKind.QuickFix);
         expect(actions![0].diagnostics).to.have.length.greaterThan(0);
         void expect(actions![0].isPreferred).to.be.true;
@@ -153,7 +161,7 @@ describe("actions", () => {
         diagnostics.set(document.uri, [diagnostic1, diagnostic2]);
 
         // Act
-        const actions = await provider.provideCodeActions(document, range);
+        const actions = await provider.provideCodeActions(document, range, ANY_CONTEXT, ANY_TOKEN);
 
         // Assert - Only diagnostic1 included since it intersects with mockRange (0,0 to 0,10)
         expect(actions).to.have.length(ACTION_COUNT);
@@ -175,7 +183,7 @@ describe("actions", () => {
         diagnostics.set(document.uri, [diagnostic]);
 
         // Act
-        const actions = await provider.provideCodeActions(document, range);
+        const actions = await provider.provideCodeActions(document, range, ANY_CONTEXT, ANY_TOKEN);
 
         // Assert
         void expect(actions).to.be.an("array").that.is.empty;
@@ -200,7 +208,7 @@ describe("actions", () => {
         diagnostics.set(document.uri, [intersectingDiagnostic, nonIntersectingDiagnostic]);
 
         // Act
-        const actions = await provider.provideCodeActions(document, range);
+        const actions = await provider.provideCodeActions(document, range, ANY_CONTEXT, ANY_TOKEN);
 
         // Assert
         expect(actions).to.have.length(ACTION_COUNT);
@@ -221,7 +229,7 @@ describe("actions", () => {
         diagnostics.set(document.uri, [diagnostic]);
 
         // Act
-        const actions = await provider.provideCodeActions(document, range);
+        const actions = await provider.provideCodeActions(document, range, ANY_CONTEXT, ANY_TOKEN);
 
         // Assert
         expect(actions).to.have.length(ACTION_COUNT);
@@ -229,7 +237,7 @@ describe("actions", () => {
         const fixAllAction = actions![1];
 
         // Check block fix action
-        expect(blockAction.title).to.equal("Sort all lines in block (keep-sorted)");
+        expect(blockAction.title).to.match(BLOCK_ACTION_TITLE);
         expect(blockAction.kind).to.equal(vscode.CodeActionKind.QuickFix);
         expect(blockAction.diagnostics).to.have.length.greaterThan(0);
         void expect(blockAction.isPreferred).to.be.true;
@@ -253,7 +261,12 @@ describe("actions", () => {
         diagnostics.set(document.uri, [diagnostic]);
 
         // Act
-        const actions = await provider.provideCodeActions(document, blockRange);
+        const actions = await provider.provideCodeActions(
+          document,
+          blockRange,
+          ANY_CONTEXT,
+          ANY_TOKEN
+        );
 
         // Assert
         expect(actions).to.have.length(3);
@@ -299,14 +312,17 @@ describe("actions", () => {
         diagnostics.set(document.uri, [diagnostic]);
 
         // Act
-        const actions = await provider.provideCodeActions(document, new vscode.Range(5, 0, 8, 0));
+        const actions = await provider.provideCodeActions(
+          document,
+          new vscode.Range(5, 0, 8, 0),
+          ANY_CONTEXT,
+          ANY_TOKEN
+        );
 
         // Assert
         expect(actions).to.have.length(ACTION_COUNT);
 
-        const blockAction = actions.find(
-          (a) => a.title === "Sort all lines in block (keep-sorted)"
-        );
+        const blockAction = actions.find((a) => BLOCK_ACTION_TITLE.test(a.title));
         const fixAllAction = actions.find(
           (a) => a.title === "Sort all lines in file (keep-sorted)"
         );
@@ -323,7 +339,7 @@ describe("actions", () => {
         expect(fixAllAction!.kind).to.equal(vscode.CodeActionKind.SourceFixAll);
       });
 
-      it("should pass diagnostics array to block fix command arguments", async () => {
+      it("should create a block action per diagnostic", async () => {
         // Arrange
         const diagnostic1 = new vscode.Diagnostic(
           new vscode.Range(0, 0, 0, 10),
@@ -342,17 +358,61 @@ describe("actions", () => {
         diagnostics.set(document.uri, [diagnostic1, diagnostic2]);
 
         // Act - both diagnostics intersect with range (0, 0, 0, 20)
-        const actions = await provider.provideCodeActions(document, new vscode.Range(0, 0, 0, 20));
+        const actions = await provider.provideCodeActions(
+          document,
+          new vscode.Range(0, 0, 0, 20),
+          ANY_CONTEXT,
+          ANY_TOKEN
+        );
 
         // Assert
-        expect(actions).to.have.length(ACTION_COUNT);
-        const blockAction = actions.find(
-          (a) => a.title === "Sort all lines in block (keep-sorted)"
+        const blockActions = actions.filter((a) => BLOCK_ACTION_TITLE.test(a.title));
+        expect(blockActions.map((a) => a.diagnostics)).to.deep.equal([
+          [diagnostic1],
+          [diagnostic2],
+        ]);
+      });
+
+      it("should only change the lines of the diagnostic's block", async () => {
+        // Arrange
+        diagnostics.set(document.uri, await linter.lintDocument(document));
+        const blockRange = new vscode.Range(5, 0, 8, 0);
+
+        // Act
+        const actions = await provider.provideCodeActions(
+          document,
+          blockRange,
+          ANY_CONTEXT,
+          ANY_TOKEN
         );
 
-        void expect(blockAction).to.not.be.undefined;
-        // Actions now have edits directly, no command arguments
-        void expect(blockAction!.edit).to.not.be.undefined;
+        // Assert
+        const blockAction = actions.find((a) => BLOCK_ACTION_TITLE.test(a.title))!;
+        void expect(blockAction.disabled).to.be.undefined;
+        const textEdits = blockAction.edit!.get(document.uri);
+        void expect(textEdits).to.not.be.empty;
+        textEdits.forEach(
+          (textEdit) => void expect(blockRange.contains(textEdit.range)).to.be.true
+        );
+      });
+
+      it("should disable the block action when the block can't be fixed in isolation", async () => {
+        // Arrange - No finding exists for the diagnostic's lines
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(0, 0, 0, 10),
+          ANY_DIAGNOSTIC_MESSAGE,
+          vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = KEEP_SORTED_SOURCE;
+        diagnostics.set(document.uri, [diagnostic]);
+
+        // Act
+        const actions = await provider.provideCodeActions(document, range, ANY_CONTEXT, ANY_TOKEN);
+
+        // Assert
+        const blockAction = actions.find((a) => BLOCK_ACTION_TITLE.test(a.title))!;
+        expect(blockAction.disabled?.reason).to.include("no longer out of order");
+        void expect(blockAction.edit).to.be.undefined;
       });
     });
   });
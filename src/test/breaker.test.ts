@@ -0,0 +1,159 @@
+import { describe, it, beforeEach, afterEach } from "mocha";
+import { expect, use } from "chai";
+import chaiAsPromised from "chai-as-promised";
+import * as sinon from "sinon";
+import sinonChai from "sinon-chai";
+import * as vscode from "vscode";
+import { CircuitBreaker } from "../breaker";
+import { CircuitOpenError } from "../errors";
+
+use(chaiAsPromised);
+use(sinonChai);
+
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+
+const FAILURE_THRESHOLD = 2;
+const LONG_COOLDOWN_MS = 60 * 60 * 1000;
+const ANY_RESULT = "result";
+const ANY_ERROR_MESSAGE = "binary crashed";
+
+const fail = async (): Promise<string> => {
+  throw new Error(ANY_ERROR_MESSAGE);
+};
+const succeed = async () => ANY_RESULT;
+
+/** Fails the breaker enough times in a row to open it. */
+async function openCircuit(breaker: CircuitBreaker): Promise<void> {
+  for (let i = 0; i < FAILURE_THRESHOLD; i++) {
+    await expect(breaker.run(fail)).to.be.rejectedWith(ANY_ERROR_MESSAGE);
+  }
+}
+
+describe("breaker", () => {
+  describe("CircuitBreaker", () => {
+    let sandbox: sinon.SinonSandbox;
+    let showErrorStub: sinon.SinonStub;
+
+    beforeEach(() => {
+      sandbox = sinon.createSandbox();
+      showErrorStub = sandbox.stub(vscode.window, "showErrorMessage").resolves(undefined);
+    });
+
+    afterEach(() => {
+      sandbox.restore();
+    });
+
+    it("should stop invoking after consecutive failures and notify once", async () => {
+      // Arrange
+      const breaker = new CircuitBreaker({
+        failureThreshold: FAILURE_THRESHOLD,
+        cooldownMs: LONG_COOLDOWN_MS,
+      });
+      const invocation = sinon.stub().resolves(ANY_RESULT);
+
+      // Act
+      await openCircuit(breaker);
+
+      // Assert
+      expect(breaker.state).to.equal("open");
+      await expect(breaker.run(invocation)).to.be.rejectedWith(CircuitOpenError);
+      await expect(breaker.run(invocation)).to.be.rejectedWith(CircuitOpenError);
+      expect(invocation).to.not.have.been.called;
+      expect(showErrorStub).to.have.been.calledOnceWith(sinon.match.string, "Retry");
+    });
+
+    it("should reset the failure count after a success", async () => {
+      // Arrange
+      const breaker = new CircuitBreaker({ failureThreshold: FAILURE_THRESHOLD });
+      await expect(breaker.run(fail)).to.be.rejected;
+
+      // Act
+      await breaker.run(succeed);
+      await expect(breaker.run(fail)).to.be.rejected;
+
+      // Assert
+      expect(breaker.state).to.equal("closed");
+    });
+
+    it("should count results reported as failed", async () => {
+      // Arrange
+      const breaker = new CircuitBreaker({
+        failureThreshold: FAILURE_THRESHOLD,
+        cooldownMs: LONG_COOLDOWN_MS,
+      });
+
+      // Act
+      for (let i = 0; i < FAILURE_THRESHOLD; i++) {
+        await breaker.run(succeed, () => true);
+      }
+
+      // Assert
+      expect(breaker.state).to.equal("open");
+    });
+
+    it("should not count cancellations as failures", async () => {
+      // Arrange
+      const breaker = new CircuitBreaker({ failureThreshold: 1 });
+
+      // Act
+      await expect(
+        breaker.run(async () => {
+          throw new vscode.CancellationError();
+        })
+      ).to.be.rejectedWith(vscode.CancellationError);
+
+      // Assert
+      expect(breaker.state).to.equal("closed");
+    });
+
+    it("should not count errors the caller ignores as failures", async () => {
+      // Arrange
+      const breaker = new CircuitBreaker({ failureThreshold: 1 });
+      const error = new Error("spawn ENOENT");
+
+      // Act
+      await expect(
+        breaker.run(
+          async () => {
+            throw error;
+          },
+          undefined,
+          (err) => err === error
+        )
+      ).to.be.rejectedWith(error);
+
+      // Assert
+      expect(breaker.state).to.equal("closed");
+    });
+
+    it("should close after a successful trial once cooled down", async () => {
+      // Arrange
+      const breaker = new CircuitBreaker({ failureThreshold: FAILURE_THRESHOLD, cooldownMs: 0 });
+      await openCircuit(breaker);
+
+      // Act
+      const result = await breaker.run(succeed);
+
+      // Assert
+      expect(result).to.equal(ANY_RESULT);
+      expect(breaker.state).to.equal("closed");
+    });
+
+    it("should close when retried by the user", async () => {
+      // Arrange
+      showErrorStub.resolves("Retry");
+      const breaker = new CircuitBreaker({
+        failureThreshold: FAILURE_THRESHOLD,
+        cooldownMs: LONG_COOLDOWN_MS,
+      });
+
+      // Act
+      await openCircuit(breaker);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      // Assert
+      expect(breaker.state).to.equal("closed");
+      expect(await breaker.run(succeed)).to.equal(ANY_RESULT);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, beforeEach } from "mocha";
+import { expect, use } from "chai";
+import chaiAsPromised from "chai-as-promised";
+import * as sinon from "sinon";
+import sinonChai from "sinon-chai";
+import * as vscode from "vscode";
+import { ResultCache, ResultKey } from "../cache";
+
+use(chaiAsPromised);
+use(sinonChai);
+
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+
+const ANY_KEY: ResultKey = {
+  uri: vscode.Uri.file("/project/file.ts"),
+  text: "// keep-sorted start\nb\na\n// keep-sorted end\n",
+  version: "v0.7.1",
+  args: ["--mode", "lint", "-"],
+};
+const ANY_RESULT = "result";
+const ANY_ERROR_MESSAGE = "binary failed";
+
+describe("cache", () => {
+  describe("ResultCache", () => {
+    let cache: ResultCache<string | null>;
+
+    beforeEach(() => {
+      cache = new ResultCache<string | null>("Test");
+    });
+
+    it("should only create the result once for the same key", async () => {
+      // Arrange
+      const create = sinon.stub().resolves(ANY_RESULT);
+
+      // Act
+      const first = await cache.getOrCreate(ANY_KEY, create);
+      const second = await cache.getOrCreate({ ...ANY_KEY }, create);
+
+      // Assert
+      expect([first, second]).to.deep.equal([ANY_RESULT, ANY_RESULT]);
+      expect(create).to.have.been.calledOnce;
+      expect(cache.hitRate).to.equal(0.5);
+    });
+
+    it("should cache null results", async () => {
+      // Arrange
+      const create = sinon.stub().resolves(null);
+
+      // Act
+      await cache.getOrCreate(ANY_KEY, create);
+      const result = await cache.getOrCreate(ANY_KEY, create);
+
+      // Assert
+      expect(result).to.equal(null);
+      expect(create).to.have.been.calledOnce;
+    });
+
+    [
+      { name: "uri", key: { ...ANY_KEY, uri: vscode.Uri.file("/project/other.ts") } },
+      { name: "text", key: { ...ANY_KEY, text: "changed" } },
+      { name: "version", key: { ...ANY_KEY, version: "v0.8.0" } },
+      { name: "args", key: { ...ANY_KEY, args: ["--mode", "fix", "-"] } },
+    ].forEach(({ name, key }) => {
+      it(`should create the result again when the ${name} differs`, async () => {
+        // Arrange
+        const create = sinon.stub().resolves(ANY_RESULT);
+        await cache.getOrCreate(ANY_KEY, create);
+
+        // Act
+        await cache.getOrCreate(key, create);
+
+        // Assert
+        expect(create).to.have.been.calledTwice;
+      });
+    });
+
+    it("should not cache failures", async () => {
+      // Arrange
+      const create = sinon.stub();
+      create.onFirstCall().rejects(new Error(ANY_ERROR_MESSAGE));
+      create.onSecondCall().resolves(ANY_RESULT);
+
+      // Act
+      await expect(cache.getOrCreate(ANY_KEY, create)).to.be.rejectedWith(ANY_ERROR_MESSAGE);
+      const result = await cache.getOrCreate(ANY_KEY, create);
+
+      // Assert
+      expect(result).to.equal(ANY_RESULT);
+      expect(create).to.have.been.calledTwice;
+    });
+
+    it("should create the result again after being cleared", async () => {
+      // Arrange
+      const create = sinon.stub().resolves(ANY_RESULT);
+      await cache.getOrCreate(ANY_KEY, create);
+
+      // Act
+      cache.clear();
+      await cache.getOrCreate(ANY_KEY, create);
+
+      // Assert
+      expect(create).to.have.been.calledTwice;
+      expect(cache.size).to.equal(1);
+      expect(cache.hitRate).to.equal(0);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, it, beforeEach, afterEach } from "mocha";
+import { expect } from "chai";
+import * as vscode from "vscode";
+import { CodeLensProvider } from "../codelens";
+import { FixBlockCommandHandler } from "../commands";
+import { toDiagnostic } from "../diagnostics";
+import { EXT_NAME } from "../instrumentation";
+import { KeepSortedFinding } from "../keepsorted";
+
+const ANY_URI = vscode.Uri.file("/any/file.ts");
+
+/** Creates a document of the lines, supporting only what the provider reads. */
+function mockDocument(lines: string[]): vscode.TextDocument {
+  return { uri: ANY_URI, getText: () => lines.join("\n") + "\n" } as unknown as vscode.TextDocument;
+}
+
+/** Creates the diagnostic of an unsorted block from the one-based lines the binary reports. */
+function blockDiagnostic(lines: string[], start: number, end: number, newContent: string) {
+  const finding: KeepSortedFinding = {
+    path: "-",
+    lines: { start, end },
+    message: "These lines are out of order.",
+    fixes: [{ replacements: [{ lines: { start, end }, new_content: newContent }] }],
+  };
+  return toDiagnostic(ANY_URI, lines, finding, vscode.DiagnosticSeverity.Warning);
+}
+
+describe("codelens", () => {
+  describe("CodeLensProvider", () => {
+    let diagnostics: vscode.DiagnosticCollection;
+    let provider: CodeLensProvider;
+
+    beforeEach(() => {
+      diagnostics = vscode.languages.createDiagnosticCollection(EXT_NAME);
+      provider = new CodeLensProvider(diagnostics);
+    });
+
+    afterEach(() => {
+      provider.dispose();
+      diagnostics.dispose();
+    });
+
+    it("should show that a block without diagnostics is sorted", () => {
+      // Arrange
+      const lines = ["// keep-sorted start", "a", "", "b", "// keep-sorted end"];
+      diagnostics.set(ANY_URI, []);
+
+      // Act
+      const lenses = provider.provideCodeLenses(mockDocument(lines));
+
+      // Assert
+      expect(lenses).to.have.length(1);
+      expect(lenses[0].range).to.deep.equal(new vscode.Range(0, 0, 0, 0));
+      expect(lenses[0].command!.title).to.equal("✓ sorted · 2 items");
+    });
+
+    it("should not show that a block is sorted before the document is linted", () => {
+      // Arrange
+      const lines = ["// keep-sorted start", "a", "b", "// keep-sorted end"];
+
+      // Act
+      const lenses = provider.provideCodeLenses(mockDocument(lines));
+
+      // Assert
+      void expect(lenses).to.be.empty;
+    });
+
+    it("should count neither comments nor lines continuing an item", () => {
+      // Arrange
+      const lines = [
+        "// keep-sorted start group=yes",
+        "// The first item",
+        "a(",
+        "  1)",
+        "b",
+        "// keep-sorted end",
+      ];
+      diagnostics.set(ANY_URI, []);
+
+      // Act
+      const lenses = provider.provideCodeLenses(mockDocument(lines));
+
+      // Assert
+      expect(lenses[0].command!.title).to.equal("✓ sorted · 2 items");
+    });
+
+    it("should sort a block with a diagnostic", () => {
+      // Arrange
+      const lines = ["// keep-sorted start", "c", "a", "b", "// keep-sorted end"];
+      const diagnostic = blockDiagnostic(lines, 2, 4, "a\nb\nc\n");
+      diagnostics.set(ANY_URI, [diagnostic]);
+
+      // Act
+      const lenses = provider.provideCodeLenses(mockDocument(lines));
+
+      // Assert
+      expect(lenses[0].command).to.deep.include({
+        title: "Sort block (1 line out of order)",
+        command: FixBlockCommandHandler.COMMAND.command,
+        arguments: [ANY_URI, new vscode.Range(1, 0, 4, 0)],
+      });
+    });
+
+    it("should give nested blocks their own diagnostics", () => {
+      // Arrange
+      const lines = [
+        "// keep-sorted start",
+        "a",
+        "// keep-sorted start",
+        "z",
+        "y",
+        "// keep-sorted end",
+        "// keep-sorted end",
+      ];
+      diagnostics.set(ANY_URI, [blockDiagnostic(lines, 4, 5, "y\nz\n")]);
+
+      // Act
+      const lenses = provider.provideCodeLenses(mockDocument(lines));
+
+      // Assert
+      expect(lenses.map((lens) => lens.command!.title)).to.deep.equal([
+        "✓ sorted · 2 items",
+        "Sort block (1 line out of order)",
+      ]);
+    });
+
+    it("should refresh the lenses when the diagnostics change", async () => {
+      // Arrange
+      const changed = new Promise<void>((resolve) => provider.onDidChangeCodeLenses(resolve));
+
+      // Act
+      diagnostics.set(ANY_URI, []);
+
+      // Assert
+      await changed;
+    });
+  });
+});
@@ -4,7 +4,14 @@ import sinonChai from "sinon-chai";
 import * as sinon from "sinon";
 import * as path from "path";
 import * as vscode from "vscode";
-import { FixFileCommandHandler, FixWorkspaceCommandHandler } from "../commands";
+import {
+  FixBlockCommandHandler,
+  FixFileCommandHandler,
+  FixWorkspaceCommandHandler,
+  PreviewFixCommandHandler,
+} from "../commands";
+import { BlockNotFixableError, CircuitOpenError } from "../errors";
+import { PreviewContentProvider } from "../preview";
 import { EditFactory } from "../workspace";
 import { KeepSorted } from "../keepsorted";
 import { EXT_NAME } from "../instrumentation";
@@ -92,6 +99,166 @@ describe("commands", () => {
       const editArg = applyEditStub.firstCall.args[0];
       void expect(editArg).to.be.instanceOf(vscode.WorkspaceEdit);
     });
+
+    it("should cancel the previous invocation when invoked again", async () => {
+      // Arrange
+      const document = await vscode.workspace.openTextDocument(MIXED_BLOCKS_FILE);
+      await vscode.window.showTextDocument(document);
+      const tokens: vscode.CancellationToken[] = [];
+      const createStub = sinon
+        .stub(editFactory, "create")
+        .callsFake(async (_doc, _range, token) => {
+          tokens.push(token!);
+          return null;
+        });
+
+      // Act
+      await Promise.all([handler.handle(), handler.handle()]);
+      createStub.restore();
+
+      // Assert
+      void expect(tokens).to.have.length(2);
+      void expect(tokens[0].isCancellationRequested).to.be.true;
+      void expect(tokens[1].isCancellationRequested).to.be.false;
+    });
+  });
+
+  describe("FixBlockCommandHandler", () => {
+    let handler: FixBlockCommandHandler;
+
+    beforeEach(() => {
+      handler = new FixBlockCommandHandler(diagnostics, editFactory);
+    });
+
+    it("should sort only the block of the given range", async () => {
+      // Arrange
+      const document = await vscode.workspace.openTextDocument(MIXED_BLOCKS_FILE);
+      const first = new vscode.Diagnostic(
+        new vscode.Range(5, 0, 8, 0),
+        "Lines are not sorted",
+        vscode.DiagnosticSeverity.Warning
+      );
+      const second = new vscode.Diagnostic(
+        new vscode.Range(16, 0, 19, 0),
+        "Lines are not sorted",
+        vscode.DiagnosticSeverity.Warning
+      );
+      diagnostics.set(document.uri, [first, second]);
+      const createStub = sinon.stub(editFactory, "createForDiagnostic").resolves({
+        documentUri: document.uri,
+        edit: new vscode.WorkspaceEdit(),
+        diagnostics: [second],
+      });
+      applyEditStub.resolves(true);
+
+      // Act
+      await handler.handle(document.uri, new vscode.Range(16, 0, 19, 0));
+      createStub.restore();
+
+      // Assert
+      void expect(createStub).to.have.been.calledOnceWith(document, second);
+      void expect(applyEditStub).to.have.been.calledOnce;
+    });
+
+    it("should show why the block can't be sorted on its own", async () => {
+      // Arrange
+      const document = await vscode.workspace.openTextDocument(MIXED_BLOCKS_FILE);
+      const diagnostic = new vscode.Diagnostic(
+        new vscode.Range(5, 0, 8, 0),
+        "Lines are not sorted",
+        vscode.DiagnosticSeverity.Warning
+      );
+      diagnostics.set(document.uri, [diagnostic]);
+      const error = new BlockNotFixableError("This block can't be sorted in isolation.");
+      const createStub = sinon.stub(editFactory, "createForDiagnostic").rejects(error);
+      const messageStub = sinon.stub(vscode.window, "showInformationMessage").resolves(undefined);
+
+      // Act
+      await handler.handle(document.uri, new vscode.Range(5, 0, 8, 0));
+      createStub.restore();
+      messageStub.restore();
+
+      // Assert
+      void expect(applyEditStub).to.not.have.been.called;
+      void expect(messageStub).to.have.been.calledOnce;
+      expect(messageStub.firstCall.args[0]).to.include(error.message);
+    });
+
+    it("should do nothing when the block no longer has a diagnostic", async () => {
+      // Arrange
+      const document = await vscode.workspace.openTextDocument(MIXED_BLOCKS_FILE);
+      diagnostics.set(document.uri, []);
+
+      // Act
+      await handler.handle(document.uri, new vscode.Range(5, 0, 8, 0));
+
+      // Assert
+      void expect(applyEditStub).to.not.have.been.called;
+    });
+  });
+
+  describe("PreviewFixCommandHandler", () => {
+    let handler: PreviewFixCommandHandler;
+    let previewProvider: PreviewContentProvider;
+    let document: vscode.TextDocument;
+    let createStub: sinon.SinonStub;
+    let diffStub: sinon.SinonStub;
+    let messageStub: sinon.SinonStub;
+
+    beforeEach(async () => {
+      previewProvider = new PreviewContentProvider();
+      handler = new PreviewFixCommandHandler(diagnostics, editFactory, previewProvider);
+      document = await vscode.workspace.openTextDocument(MIXED_BLOCKS_FILE);
+      const edit = new vscode.WorkspaceEdit();
+      edit.set(document.uri, [
+        vscode.TextEdit.replace(new vscode.Range(5, 0, 8, 0), 'const alpha = "alpha";\n'),
+      ]);
+      createStub = sinon
+        .stub(editFactory, "create")
+        .resolves({ documentUri: document.uri, edit, diagnostics: [] });
+      diffStub = sinon.stub(vscode.commands, "executeCommand").resolves();
+      messageStub = sinon.stub(vscode.window, "showInformationMessage");
+      applyEditStub.resolves(true);
+    });
+
+    afterEach(() => {
+      createStub.restore();
+      diffStub.restore();
+      messageStub.restore();
+      previewProvider.dispose();
+    });
+
+    it("should show the fixed document in a diff and apply it when confirmed", async () => {
+      // Arrange
+      let previewText: string | undefined;
+      messageStub.callsFake(async () => {
+        previewText = previewProvider.provideTextDocumentContent(diffStub.firstCall.args[2]);
+        return PreviewFixCommandHandler.APPLY;
+      });
+
+      // Act
+      await handler.handle(document.uri);
+
+      // Assert
+      void expect(diffStub).to.have.been.calledWith("vscode.diff", document.uri);
+      expect(diffStub.firstCall.args[2].scheme).to.equal(PreviewContentProvider.scheme);
+      expect(previewText).to.include(
+        '// keep-sorted start\nconst alpha = "alpha";\n// keep-sorted end'
+      );
+      void expect(applyEditStub).to.have.been.calledOnce;
+    });
+
+    it("should not apply the fix when discarded", async () => {
+      // Arrange
+      messageStub.resolves(PreviewFixCommandHandler.DISCARD);
+
+      // Act
+      await handler.handle(document.uri);
+
+      // Assert
+      void expect(applyEditStub).to.not.have.been.called;
+      expect(previewProvider.provideTextDocumentContent(diffStub.firstCall.args[2])).to.equal("");
+    });
   });
 
   describe("FixWorkspaceCommandHandler", () => {
@@ -101,6 +268,192 @@ describe("commands", () => {
       handler = new FixWorkspaceCommandHandler(diagnostics, editFactory);
     });
 
+    it("should report failed files in the summary and fix the rest", async () => {
+      // Arrange
+      const failing = vscode.Uri.file(path.join(TEST_WORKSPACE, "sample.ts"));
+      const fixable = vscode.Uri.file(MIXED_BLOCKS_FILE);
+      const lintStub = sinon
+        .stub(editFactory, "lintFiles")
+        .resolves({ fixable: [failing, fixable], failures: [] });
+      const createStub = sinon.stub(editFactory, "create").callsFake(async (document) => {
+        if (document.uri.fsPath === failing.fsPath) {
+          throw new Error("binary crashed");
+        }
+        const edit = new vscode.WorkspaceEdit();
+        edit.set(document.uri, [vscode.TextEdit.insert(new vscode.Position(0, 0), "")]);
+        return { documentUri: document.uri, edit, diagnostics: [] };
+      });
+      const warningStub = sinon.stub(vscode.window, "showWarningMessage").resolves(undefined);
+      applyEditStub.resolves(true);
+
+      // Act
+      await handler.handle();
+      lintStub.restore();
+      createStub.restore();
+      warningStub.restore();
+
+      // Assert
+      void expect(applyEditStub).to.have.been.calledOnce;
+      void expect(warningStub).to.have.been.calledOnce;
+      expect(warningStub.firstCall.args[0]).to.include("1 file changed");
+      expect(warningStub.firstCall.args[0]).to.include("1 failure");
+      expect(warningStub.firstCall.args[1]).to.equal("Open Report");
+    });
+
+    it("should report files that couldn't be linted in the summary", async () => {
+      // Arrange
+      const unreadable = vscode.Uri.file(path.join(TEST_WORKSPACE, "unreadable.ts"));
+      const lintStub = sinon.stub(editFactory, "lintFiles").resolves({
+        fixable: [],
+        failures: [{ uri: unreadable, error: new Error("binary crashed") }],
+      });
+      const warningStub = sinon.stub(vscode.window, "showWarningMessage").resolves(undefined);
+
+      // Act
+      await handler.handle();
+      lintStub.restore();
+      warningStub.restore();
+
+      // Assert
+      void expect(applyEditStub).to.not.have.been.called;
+      void expect(warningStub).to.have.been.calledOnce;
+      expect(warningStub.firstCall.args[0]).to.include("1 failure");
+    });
+
+    it("should report files skipped by the paused binary as failures", async () => {
+      // Arrange
+      const skipped = vscode.Uri.file(path.join(TEST_WORKSPACE, "sample.ts"));
+      const lintStub = sinon.stub(editFactory, "lintFiles").resolves({
+        fixable: [],
+        failures: [{ uri: skipped, error: new CircuitOpenError(5) }],
+      });
+      const warningStub = sinon.stub(vscode.window, "showWarningMessage").resolves(undefined);
+
+      // Act
+      await handler.handle();
+      lintStub.restore();
+      warningStub.restore();
+
+      // Assert
+      void expect(warningStub).to.have.been.calledOnce;
+      expect(warningStub.firstCall.args[0]).to.include("1 failure");
+    });
+
+    it("should show the files scanned so far while scanning", async () => {
+      // Arrange
+      const uris = ["one.ts", "two.ts"].map((file) =>
+        vscode.Uri.file(path.join(TEST_WORKSPACE, file))
+      );
+      const findFilesStub = sinon.stub(vscode.workspace, "findFiles").resolves(uris);
+      const lintStub = sinon
+        .stub(editFactory, "lintFiles")
+        .callsFake(async (_uris, _token, onProgress) => {
+          onProgress?.(1);
+          onProgress?.(2);
+          return { fixable: [], failures: [] };
+        });
+      const report = sinon.stub();
+      const progressStub = sinon
+        .stub(vscode.window, "withProgress")
+        .callsFake(async (_options, task) =>
+          task({ report }, new vscode.CancellationTokenSource().token)
+        );
+      const messageStub = sinon.stub(vscode.window, "showInformationMessage").resolves(undefined);
+
+      // Act
+      await handler.handle();
+      findFilesStub.restore();
+      lintStub.restore();
+      progressStub.restore();
+      messageStub.restore();
+
+      // Assert
+      expect(report.getCalls().map((call) => call.args[0])).to.deep.equal([
+        { message: "Scanning 2 files..." },
+        { increment: 25, message: "Scanned 1 of 2 files" },
+        { increment: 25, message: "Scanned 2 of 2 files" },
+      ]);
+    });
+
+    it("should not apply anything when cancelled from the progress notification", async () => {
+      // Arrange
+      const cancelled = new vscode.CancellationTokenSource();
+      cancelled.cancel();
+      const progressStub = sinon
+        .stub(vscode.window, "withProgress")
+        .callsFake(async (_options, task) => task({ report: () => {} }, cancelled.token));
+      const lintStub = sinon.stub(editFactory, "lintFiles").resolves({ fixable: [], failures: [] });
+
+      // Act
+      await handler.handle();
+      progressStub.restore();
+      lintStub.restore();
+
+      // Assert
+      void expect(applyEditStub).to.not.have.been.called;
+    });
+
+    it("should apply every file as one edit needing confirmation", async () => {
+      // Arrange
+      const uris = [MIXED_BLOCKS_FILE, path.join(TEST_WORKSPACE, "sample.ts")].map((file) =>
+        vscode.Uri.file(file)
+      );
+      const lintStub = sinon
+        .stub(editFactory, "lintFiles")
+        .resolves({ fixable: uris, failures: [] });
+      const createStub = sinon.stub(editFactory, "create").callsFake(async (document) => {
+        const edit = new vscode.WorkspaceEdit();
+        edit.set(document.uri, [vscode.TextEdit.insert(new vscode.Position(0, 0), "")]);
+        return { documentUri: document.uri, edit, diagnostics: [] };
+      });
+      const replaceSpy = sinon.spy(vscode.WorkspaceEdit.prototype, "replace");
+      applyEditStub.resolves(true);
+
+      // Act
+      await handler.handle();
+      lintStub.restore();
+      createStub.restore();
+      replaceSpy.restore();
+
+      // Assert
+      void expect(applyEditStub).to.have.been.calledOnce;
+      const edit: vscode.WorkspaceEdit = applyEditStub.firstCall.args[0];
+      expect(edit.entries().map(([uri]) => uri.fsPath)).to.have.members(
+        uris.map((uri) => uri.fsPath)
+      );
+      const metadata = replaceSpy.getCalls().map((call) => call.args[3]);
+      expect(metadata).to.have.length(2);
+      for (const entry of metadata) {
+        expect(entry).to.include({ needsConfirmation: true });
+        expect(entry!.label).to.match(/^Sort keep-sorted blocks in /);
+      }
+    });
+
+    it("should lint the files again once the edit is applied", async () => {
+      // Arrange
+      const uri = vscode.Uri.file(MIXED_BLOCKS_FILE);
+      const lintStub = sinon
+        .stub(editFactory, "lintFiles")
+        .resolves({ fixable: [uri], failures: [] });
+      const createStub = sinon.stub(editFactory, "create").callsFake(async (document) => {
+        const edit = new vscode.WorkspaceEdit();
+        edit.set(document.uri, [vscode.TextEdit.insert(new vscode.Position(0, 0), "")]);
+        return { documentUri: document.uri, edit, diagnostics: [] };
+      });
+      const relintStub = sinon.stub(editFactory, "lint").resolves();
+      applyEditStub.resolves(true);
+
+      // Act
+      await handler.handle();
+      lintStub.restore();
+      createStub.restore();
+      relintStub.restore();
+
+      // Assert
+      void expect(relintStub).to.have.been.calledOnce;
+      expect(relintStub.firstCall.args[0].uri.fsPath).to.equal(uri.fsPath);
+    });
+
     it("should process all in-scope workspace files", async function () {
       // Arrange
       applyEditStub.resolves(true);
@@ -0,0 +1,148 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import * as vscode from "vscode";
+import { CompletionProvider } from "../completion";
+import { OPTION_NAMES } from "../directives";
+
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+
+/** Creates a document of the lines, supporting only what the provider reads. */
+function mockDocument(lines: string[]): vscode.TextDocument {
+  return {
+    lineAt: (line: number) => ({ text: lines[line] }),
+    getText: (range: vscode.Range) => lines.slice(0, range.end.line).join("\n") + "\n",
+  } as unknown as vscode.TextDocument;
+}
+
+/** Gets the completions at the end of the last line, typed or triggered by the character. */
+function complete(lines: string[], triggerCharacter?: string): vscode.CompletionItem[] {
+  const line = lines.length - 1;
+  const position = new vscode.Position(line, lines[line].length);
+  const context: vscode.CompletionContext = {
+    triggerKind: triggerCharacter
+      ? vscode.CompletionTriggerKind.TriggerCharacter
+      : vscode.CompletionTriggerKind.Invoke,
+    triggerCharacter,
+  };
+  return new CompletionProvider().provideCompletionItems(
+    mockDocument(lines),
+    position,
+    new vscode.CancellationTokenSource().token,
+    context
+  ) as vscode.CompletionItem[];
+}
+
+/** Gets the text a completion inserts. */
+function insertText(item: vscode.CompletionItem): string {
+  const text = item.insertText ?? item.label;
+  return typeof text === "string" ? text : "value" in text ? text.value : text.label;
+}
+
+describe("completion", () => {
+  describe("CompletionProvider", () => {
+    it("should suggest every option after a start directive", () => {
+      // Act
+      const items = complete(["// keep-sorted start "]);
+
+      // Assert
+      expect(items.map((item) => item.label)).to.have.members(OPTION_NAMES);
+    });
+
+    it("should filter out options already on the line", () => {
+      // Act
+      const items = complete(["# keep-sorted start numeric=yes case=no "]);
+
+      // Assert
+      const labels = items.map((item) => item.label);
+      expect(labels).to.not.include("numeric");
+      expect(labels).to.not.include("case");
+      expect(labels).to.include("block");
+    });
+
+    [
+      { name: "by_regex", expected: "by_regex=${1:pattern}" },
+      { name: "prefix_order", expected: "prefix_order=${1:prefix},${2}" },
+      { name: "skip_lines", expected: "skip_lines=${1:1}" },
+      { name: "numeric", expected: "numeric=" },
+    ].forEach(({ name, expected }) => {
+      it(`should insert "${expected}" for ${name}`, () => {
+        // Act
+        const items = complete(["<!-- keep-sorted start "]);
+
+        // Assert
+        const item = items.find((i) => i.label === name)!;
+        expect(insertText(item)).to.equal(expected);
+      });
+    });
+
+    [
+      { line: "// keep-sorted start numeric=", expected: ["yes", "no"] },
+      { line: "// keep-sorted start newline_separated=y", expected: ["yes", "no"] },
+      { line: "// keep-sorted start skip_lines=", expected: [] },
+    ].forEach(({ line, expected }) => {
+      it(`should suggest values for "${line}"`, () => {
+        // Act
+        const items = complete([line]);
+
+        // Assert
+        expect(items.map((item) => item.label)).to.deep.equal(expected);
+      });
+    });
+
+    it("should not suggest options before the end of the start directive", () => {
+      // Arrange
+      const document = mockDocument(["// keep-sorted start"]);
+
+      // Act
+      const items = new CompletionProvider().provideCompletionItems(
+        document,
+        new vscode.Position(0, 5),
+        new vscode.CancellationTokenSource().token,
+        { triggerKind: vscode.CompletionTriggerKind.Invoke, triggerCharacter: undefined }
+      );
+
+      // Assert
+      expect(items).to.be.empty;
+    });
+
+    [
+      { start: "// keep-sorted start", expected: "// keep-sorted end" },
+      { start: "  # keep-sorted start numeric=yes", expected: "# keep-sorted end" },
+      { start: "<!-- keep-sorted start -->", expected: "<!-- keep-sorted end -->" },
+      { start: "/* keep-sorted start */", expected: "/* keep-sorted end */" },
+    ].forEach(({ start, expected }) => {
+      it(`should complete the end directive of "${start}"`, () => {
+        // Act
+        const items = complete([start, "b", "a", "  kee"]);
+
+        // Assert
+        expect(items.map(insertText)).to.deep.equal([expected]);
+        expect(items[0].range).to.deep.equal(new vscode.Range(3, 2, 3, 5));
+      });
+    });
+
+    it("should not complete the end directive when a space is typed in a block", () => {
+      // Act
+      const items = complete(["// keep-sorted start", "a", "const b "], " ");
+
+      // Assert
+      expect(items).to.be.empty;
+    });
+
+    it("should suggest options when a space is typed after a start directive", () => {
+      // Act
+      const items = complete(["// keep-sorted start "], " ");
+
+      // Assert
+      expect(items.map((item) => item.label)).to.have.members(OPTION_NAMES);
+    });
+
+    it("should not complete an end directive when every block is closed", () => {
+      // Act
+      const items = complete(["// keep-sorted start", "a", "// keep-sorted end", "kee"]);
+
+      // Assert
+      expect(items).to.be.empty;
+    });
+  });
+});
@@ -7,6 +7,9 @@ import {
   getConfig,
   handleConfigurationChange,
   excluded as pathExcluded,
+  getSeverity,
+  onConfigurationReload,
+  onSeverityChange,
   KeepSortedConfiguration,
 } from "../configuration";
 
@@ -174,6 +177,143 @@ describe("configuration", () => {
       expect(configAfter).to.have.property("enabled");
       expect(configAfter).to.have.property("exclude");
     });
+
+    it("should fire the reload event when keep-sorted configuration changes", () => {
+      // Arrange
+      const mockEvent = {
+        affectsConfiguration: sandbox.stub().withArgs(KEEP_SORTED_CONFIG_NAMESPACE).returns(true),
+      } as vscode.ConfigurationChangeEvent;
+      const listener = sandbox.stub();
+      const subscription = onConfigurationReload(listener);
+
+      // Act
+      handleConfigurationChange(mockEvent);
+      subscription.dispose();
+
+      // Assert
+      expect(listener).to.have.been.calledOnceWith(getConfig());
+    });
+  });
+
+  describe("defaultOptions and extraArgs", () => {
+    let configStub: { get: sinon.SinonStub };
+    let showWarningMessageStub: sinon.SinonStub;
+
+    beforeEach(() => {
+      configStub = { get: sandbox.stub() };
+      sandbox.stub(vscode.workspace, "getConfiguration").returns(configStub as never);
+      showWarningMessageStub = sandbox.stub(vscode.window, "showWarningMessage");
+    });
+
+    function reload() {
+      handleConfigurationChange({
+        affectsConfiguration: sandbox.stub().withArgs(KEEP_SORTED_CONFIG_NAMESPACE).returns(true),
+      } as vscode.ConfigurationChangeEvent);
+    }
+
+    [
+      {
+        name: "valid settings",
+        defaultOptions: " case=no numeric=yes ",
+        extraArgs: ["--id=sorted"],
+        expected: { defaultOptions: "case=no numeric=yes", extraArgs: ["--id=sorted"] },
+        warns: false,
+      },
+      {
+        name: "unknown default option",
+        defaultOptions: "colour=no",
+        extraArgs: ["--id=sorted"],
+        expected: { defaultOptions: "", extraArgs: ["--id=sorted"] },
+        warns: true,
+      },
+      {
+        name: "managed flag",
+        defaultOptions: "case=no",
+        extraArgs: ["--mode=fix"],
+        expected: { defaultOptions: "case=no", extraArgs: [] },
+        warns: true,
+      },
+      {
+        name: "managed flag with a single dash",
+        defaultOptions: "case=no",
+        extraArgs: ["-lines=1:2"],
+        expected: { defaultOptions: "case=no", extraArgs: [] },
+        warns: true,
+      },
+      {
+        name: "positional argument",
+        defaultOptions: "case=no",
+        extraArgs: ["--id", "sorted"],
+        expected: { defaultOptions: "case=no", extraArgs: [] },
+        warns: true,
+      },
+    ].forEach(({ name, defaultOptions, extraArgs, expected, warns }) => {
+      it(`should load ${name}`, () => {
+        // Arrange
+        configStub.get.withArgs("defaultOptions").returns(defaultOptions);
+        configStub.get.withArgs("extraArgs").returns(extraArgs);
+
+        // Act
+        reload();
+
+        // Assert
+        expect(getConfig()).to.include({ defaultOptions: expected.defaultOptions });
+        expect(getConfig().extraArgs).to.deep.equal(expected.extraArgs);
+        expect(showWarningMessageStub.called).to.equal(warns);
+      });
+    });
+  });
+
+  describe("getSeverity", () => {
+    const uri = vscode.Uri.file("/a/docs/readme.md");
+    let getConfigurationStub: sinon.SinonStub;
+    let configStub: { get: sinon.SinonStub };
+
+    beforeEach(() => {
+      configStub = { get: sandbox.stub() };
+      getConfigurationStub = sandbox
+        .stub(vscode.workspace, "getConfiguration")
+        .returns(configStub as never);
+    });
+
+    [
+      { value: "error", expected: vscode.DiagnosticSeverity.Error },
+      { value: "warning", expected: vscode.DiagnosticSeverity.Warning },
+      { value: "information", expected: vscode.DiagnosticSeverity.Information },
+      { value: "hint", expected: vscode.DiagnosticSeverity.Hint },
+      { value: "fatal", expected: vscode.DiagnosticSeverity.Warning },
+    ].forEach(({ value, expected }) => {
+      it(`should map "${value}" to ${vscode.DiagnosticSeverity[expected]}`, () => {
+        // Arrange
+        configStub.get.withArgs("severity").returns(value);
+
+        // Act
+        const severity = getSeverity(uri, "markdown");
+
+        // Assert
+        expect(severity).to.equal(expected);
+        expect(getConfigurationStub).to.have.been.calledWith(KEEP_SORTED_CONFIG_NAMESPACE, {
+          uri,
+          languageId: "markdown",
+        });
+      });
+    });
+
+    it("should fire the severity change event when the severity changes", () => {
+      // Arrange
+      const affectsConfiguration = sandbox.stub();
+      affectsConfiguration.withArgs(KEEP_SORTED_CONFIG_NAMESPACE).returns(true);
+      affectsConfiguration.withArgs(`${KEEP_SORTED_CONFIG_NAMESPACE}.severity`).returns(true);
+      const listener = sandbox.stub();
+      const subscription = onSeverityChange(listener);
+
+      // Act
+      handleConfigurationChange({ affectsConfiguration } as vscode.ConfigurationChangeEvent);
+      subscription.dispose();
+
+      // Assert
+      expect(listener).to.have.been.calledOnce;
+    });
   });
 
   describe("KeepSortedConfiguration interface", () => {
@@ -182,6 +322,11 @@ describe("configuration", () => {
       const config: KeepSortedConfiguration = {
         enabled: true,
         exclude: ["pattern1", "pattern2"],
+        allowUnverifiedBinary: false,
+        maxConcurrentProcesses: 4,
+        timeoutMs: 10000,
+        defaultOptions: "",
+        extraArgs: [],
       };
 
       // Assert
@@ -194,6 +339,11 @@ describe("configuration", () => {
       const config: KeepSortedConfiguration = {
         enabled: true,
         exclude: [],
+        allowUnverifiedBinary: false,
+        maxConcurrentProcesses: 4,
+        timeoutMs: 10000,
+        defaultOptions: "",
+        extraArgs: [],
       };
 
       // Assert - TypeScript enforces readonly at compile time
@@ -0,0 +1,148 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import * as vscode from "vscode";
+import { blockRange, findMisplacedLines, misplacedLineCount, toDiagnostic } from "../diagnostics";
+import { KeepSortedFinding } from "../keepsorted";
+
+describe("diagnostics", () => {
+  const uri = vscode.Uri.file("/a/sample.ts");
+
+  function replacement(start: number, end: number, newContent: string) {
+    return { lines: { start, end }, new_content: newContent };
+  }
+
+  describe("findMisplacedLines", () => {
+    [
+      {
+        name: "a line moved down",
+        text: "// start\ndelta\nalpha\nbeta\n// end",
+        replacement: replacement(2, 4, "alpha\nbeta\ndelta\n"),
+        expected: [{ line: 1, message: "should come after line 4" }],
+      },
+      {
+        name: "a line moved to the top",
+        text: "b\nc\nd\na",
+        replacement: replacement(1, 4, "a\nb\nc\nd\n"),
+        expected: [{ line: 3, message: "should come before line 1" }],
+      },
+      {
+        name: "reversed lines",
+        text: "c\nb\na",
+        replacement: replacement(1, 3, "a\nb\nc\n"),
+        expected: [
+          { line: 1, message: "should come after line 3" },
+          { line: 2, message: "should come before line 2" },
+        ],
+      },
+      {
+        name: "a removed duplicate",
+        text: "a\nb\na",
+        replacement: replacement(1, 3, "a\nb\n"),
+        expected: [],
+      },
+      {
+        name: "CRLF replacement content",
+        text: "b\r\na",
+        replacement: replacement(1, 2, "a\r\nb\r\n"),
+        expected: [{ line: 1, message: "should come before line 1" }],
+      },
+    ].forEach(({ name, text, replacement, expected }) => {
+      it(`should find ${name}`, () => {
+        // Act
+        const misplaced = findMisplacedLines(text.split(/\r?\n/), replacement);
+
+        // Assert
+        expect(misplaced).to.deep.equal(expected);
+      });
+    });
+  });
+
+  describe("toDiagnostic", () => {
+    const documentLines = ["// keep-sorted start", "delta", "alpha", "beta", "// keep-sorted end"];
+
+    function finding(replacements: ReturnType<typeof replacement>[]): KeepSortedFinding {
+      return {
+        path: uri.fsPath,
+        lines: { start: 2, end: 4 },
+        message: "These lines are out of order.",
+        fixes: replacements.length > 0 ? [{ replacements }] : [],
+      };
+    }
+
+    it("should narrow the range to the first misplaced line", () => {
+      // Act
+      const diagnostic = toDiagnostic(
+        uri,
+        documentLines,
+        finding([replacement(2, 4, "alpha\nbeta\ndelta\n")]),
+        vscode.DiagnosticSeverity.Warning
+      );
+
+      // Assert
+      expect(diagnostic.range).to.deep.equal(new vscode.Range(1, 0, 1, "delta".length));
+      expect(diagnostic.relatedInformation!.map((info) => info.message)).to.deep.equal([
+        "Unsorted keep-sorted block",
+        "should come after line 4",
+      ]);
+      expect(blockRange(diagnostic)).to.deep.equal(new vscode.Range(1, 0, 4, 0));
+    });
+
+    it("should count the misplaced lines beyond those listed", () => {
+      // Arrange
+      const items = Array.from({ length: 23 }, (_, i) => `item${String(i).padStart(2, "0")}`);
+      const lines = ["// keep-sorted start", ...[...items].reverse(), "// keep-sorted end"];
+      const reversed: KeepSortedFinding = {
+        path: uri.fsPath,
+        lines: { start: 2, end: 24 },
+        message: "These lines are out of order.",
+        fixes: [{ replacements: [replacement(2, 24, items.join("\n") + "\n")] }],
+      };
+
+      // Act
+      const diagnostic = toDiagnostic(uri, lines, reversed, vscode.DiagnosticSeverity.Warning);
+
+      // Assert
+      expect(diagnostic.relatedInformation).to.have.length(22);
+      expect(diagnostic.relatedInformation![21].message).to.equal("2 more lines out of order");
+      expect(misplacedLineCount(diagnostic)).to.equal(22);
+    });
+
+    it("should cover the whole block without a fix", () => {
+      // Act
+      const diagnostic = toDiagnostic(
+        uri,
+        documentLines,
+        finding([]),
+        vscode.DiagnosticSeverity.Warning
+      );
+
+      // Assert
+      expect(diagnostic.range).to.deep.equal(new vscode.Range(1, 0, 4, 0));
+      expect(blockRange(diagnostic)).to.deep.equal(diagnostic.range);
+    });
+
+    it("should cover the whole block when the document lines are unknown", () => {
+      // Act
+      const diagnostic = toDiagnostic(
+        uri,
+        [],
+        finding([replacement(2, 4, "alpha\nbeta\ndelta\n")]),
+        vscode.DiagnosticSeverity.Warning
+      );
+
+      // Assert
+      expect(diagnostic.range).to.deep.equal(new vscode.Range(1, 0, 4, 0));
+    });
+  });
+
+  describe("blockRange", () => {
+    it("should fall back to the diagnostic range without related information", () => {
+      // Arrange
+      const range = new vscode.Range(2, 0, 6, 0);
+      const diagnostic = new vscode.Diagnostic(range, "out of order");
+
+      // Act & Assert
+      expect(blockRange(diagnostic)).to.equal(range);
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { diffText, Hunk, splitLines } from "../diff";
+
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+
+/** Applies the hunks to the original text to check they produce the modified text. */
+function applyHunks(original: string, hunks: Hunk[]): string {
+  const lines = splitLines(original);
+  const applied: string[] = [];
+  let next = 0;
+  for (const hunk of hunks) {
+    applied.push(...lines.slice(next, hunk.start), ...hunk.lines);
+    next = hunk.end;
+  }
+  applied.push(...lines.slice(next));
+  return applied.join("");
+}
+
+describe("diff", () => {
+  describe("splitLines", () => {
+    [
+      { text: "", expected: [] },
+      { text: "a", expected: ["a"] },
+      { text: "a\nb\n", expected: ["a\n", "b\n"] },
+      { text: "a\r\nb", expected: ["a\r\n", "b"] },
+    ].forEach(({ text, expected }) => {
+      it(`should split ${JSON.stringify(text)}`, () => {
+        // Act
+        const lines = splitLines(text);
+
+        // Assert
+        expect(lines).to.deep.equal(expected);
+      });
+    });
+  });
+
+  describe("diffText", () => {
+    it("should return no hunks for identical text", () => {
+      // Act
+      const hunks = diffText("a\nb\n", "a\nb\n");
+
+      // Assert
+      expect(hunks).to.be.empty;
+    });
+
+    it("should only include the moved line of a sorted block", () => {
+      // Arrange
+      const original = "header\n// keep-sorted start\nc\na\nb\n// keep-sorted end\nfooter\n";
+      const modified = "header\n// keep-sorted start\na\nb\nc\n// keep-sorted end\nfooter\n";
+
+      // Act
+      const hunks = diffText(original, modified);
+
+      // Assert
+      expect(hunks).to.deep.equal([
+        { start: 2, end: 3, lines: [] },
+        { start: 5, end: 5, lines: ["c\n"] },
+      ]);
+    });
+
+    it("should include the last line when it has no line ending", () => {
+      // Act
+      const hunks = diffText("a\nc", "a\nb");
+
+      // Assert
+      expect(hunks).to.deep.equal([{ start: 1, end: 2, lines: ["b"] }]);
+    });
+
+    [
+      { name: "insertion", original: "a\nc\n", modified: "a\nb\nc\n" },
+      { name: "deletion", original: "a\nb\nc\n", modified: "a\nc\n" },
+      { name: "replacement", original: "a\nb\nc\n", modified: "a\nx\ny\nc\n" },
+      { name: "separate blocks", original: "b\na\n-\nd\nc\n", modified: "a\nb\n-\nc\nd\n" },
+      { name: "empty original", original: "", modified: "a\nb\n" },
+      { name: "empty modified", original: "a\nb\n", modified: "" },
+      { name: "removed duplicates", original: "b\na\nb\na\n", modified: "a\nb\n" },
+    ].forEach(({ name, original, modified }) => {
+      it(`should produce hunks that apply cleanly for ${name}`, () => {
+        // Act
+        const hunks = diffText(original, modified);
+
+        // Assert
+        expect(applyHunks(original, hunks)).to.equal(modified);
+      });
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import {
+  findDirectiveProblems,
+  matchDirectives,
+  parseDirective,
+  parseDirectives,
+  tokenizeOptions,
+  validateOptions,
+} from "../directives";
+
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+
+describe("directives", () => {
+  describe("tokenizeOptions", () => {
+    [
+      { text: "", offset: 0, expected: [] },
+      {
+        text: "case=no numeric=yes",
+        offset: 0,
+        expected: [
+          { key: "case", value: "no", keyStart: 0, valueStart: 5 },
+          { key: "numeric", value: "yes", keyStart: 8, valueStart: 16 },
+        ],
+      },
+      {
+        text: " by_regex=['a b', c] -->",
+        offset: 10,
+        expected: [{ key: "by_regex", value: "['a b', c]", keyStart: 11, valueStart: 20 }],
+      },
+      {
+        text: "by_regex=['[a-z]+', \"x]\"] case=no",
+        offset: 0,
+        expected: [
+          { key: "by_regex", value: "['[a-z]+', \"x]\"]", keyStart: 0, valueStart: 9 },
+          { key: "case", value: "no", keyStart: 26, valueStart: 31 },
+        ],
+      },
+    ].forEach(({ text, offset, expected }) => {
+      it(`should tokenize "${text}" at column ${offset}`, () => {
+        // Act
+        const tokens = tokenizeOptions(text, offset);
+
+        // Assert
+        expect(tokens).to.deep.equal(expected);
+      });
+    });
+  });
+
+  describe("parseDirective", () => {
+    it("should parse a start directive with its options", () => {
+      // Act
+      const directive = parseDirective("# keep-sorted start case=no", 3);
+
+      // Assert
+      expect(directive).to.deep.equal({
+        kind: "start",
+        line: 3,
+        column: 2,
+        options: [{ key: "case", value: "no", keyStart: 20, valueStart: 25 }],
+      });
+    });
+
+    it("should parse an end directive", () => {
+      // Act
+      const directive = parseDirective("  // keep-sorted end", 7);
+
+      // Assert
+      expect(directive).to.deep.equal({ kind: "end", line: 7, column: 5, options: [] });
+    });
+
+    it("should return undefined for other lines", () => {
+      // Act
+      const directive = parseDirective("const keepSorted = true;", 0);
+
+      // Assert
+      expect(directive).to.be.undefined;
+    });
+  });
+
+  describe("matchDirectives", () => {
+    it("should match nested blocks and report unmatched directives", () => {
+      // Arrange
+      const directives = parseDirectives([
+        "keep-sorted end",
+        "keep-sorted start",
+        "keep-sorted start",
+        "keep-sorted end",
+        "keep-sorted end",
+        "keep-sorted start",
+      ]);
+
+      // Act
+      const { pairs, unmatched } = matchDirectives(directives);
+
+      // Assert
+      expect(pairs.map(({ start, end }) => [start.line, end.line])).to.deep.equal([
+        [1, 4],
+        [2, 3],
+      ]);
+      expect(unmatched.map(({ kind, line }) => [kind, line])).to.deep.equal([
+        ["end", 0],
+        ["start", 5],
+      ]);
+    });
+  });
+
+  describe("validateOptions", () => {
+    [
+      { text: "", expected: [] },
+      { text: "case=no numeric=yes", expected: [] },
+      { text: "newline_separated=2 by_regex=['\\w+', 'a b']", expected: [] },
+      { text: "case", expected: ['Expected key=value but got "case"'] },
+      { text: "colour=no", expected: ['Unknown option "colour"'] },
+      { text: "numberic=yes", expected: ['Unknown option "numberic", did you mean "numeric"?'] },
+      { text: "case=maybe", expected: ['Invalid value "maybe" for case, expected yes or no'] },
+      {
+        text: "skip_lines=x",
+        expected: ['Invalid value "x" for skip_lines, expected a number of lines'],
+      },
+      {
+        text: "by_regex=(",
+        expected: ['Invalid regular expression "(" for by_regex: Unterminated group'],
+      },
+      { text: "by_regex=['(?i)foo', '(?P<word>\\w+)']", expected: [] },
+      { text: "by_regex=['[a-z]+']", expected: [] },
+      { text: "by_regex=['\\d+', '[0-9]'] case=no", expected: [] },
+      {
+        text: "by_regex=(?<=a)b",
+        expected: [
+          'Invalid regular expression "(?<=a)b" for by_regex: RE2 doesn\'t support lookarounds',
+        ],
+      },
+    ].forEach(({ text, expected }) => {
+      it(`should validate "${text}"`, () => {
+        // Act
+        const errors = validateOptions(text);
+
+        // Assert
+        expect(errors).to.deep.equal(expected);
+      });
+    });
+  });
+
+  describe("findDirectiveProblems", () => {
+    it("should locate problems at the token causing them", () => {
+      // Arrange
+      const lines = [
+        "# keep-sorted start numberic=yes case=maybe",
+        "b",
+        "a",
+        "# keep-sorted end",
+        "# keep-sorted end",
+      ];
+
+      // Act
+      const problems = findDirectiveProblems(lines);
+
+      // Assert
+      expect(problems).to.deep.equal([
+        {
+          line: 0,
+          start: 20,
+          end: 28,
+          message: 'Unknown option "numberic", did you mean "numeric"?',
+        },
+        {
+          line: 0,
+          start: 38,
+          end: 43,
+          message: 'Invalid value "maybe" for case, expected yes or no',
+        },
+        {
+          line: 4,
+          start: 2,
+          end: 17,
+          message: '"keep-sorted end" without a matching "keep-sorted start"',
+        },
+      ]);
+    });
+
+    it("should report nothing for valid directives", () => {
+      // Act
+      const problems = findDirectiveProblems([
+        "<!-- keep-sorted start skip_lines=1 by_regex=['\\d+'] -->",
+        "a",
+        "<!-- keep-sorted end -->",
+      ]);
+
+      // Assert
+      expect(problems).to.be.empty;
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { spawnSync } from "child_process";
+import * as path from "path";
+import { readdirSync, readFileSync } from "fs";
+import { fix, lint, parseOptions } from "../engine";
+import { getBundledBinaryPath, KeepSortedFinding } from "../keepsorted";
+import { EXT_WORKSPACE_DIR } from "./testing";
+
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+
+const GOLDEN_DIR = path.join(EXT_WORKSPACE_DIR, "src", "test", "golden");
+const ANY_PATH = "-";
+
+/** Runs the keep-sorted binary over stdin to get the golden output to compare against. */
+function runBinary(args: string[], input: string): string {
+  const binaryPath = process.env.KEEP_SORTED_BINARY ?? getBundledBinaryPath(EXT_WORKSPACE_DIR);
+  return spawnSync(binaryPath, args, { input, encoding: "utf-8" }).stdout;
+}
+
+/** Normalizes the path since it is irrelevant to the comparison between engine and binary. */
+function withAnyPath(findings: KeepSortedFinding[]): KeepSortedFinding[] {
+  return findings.map((finding) => ({ ...finding, path: ANY_PATH }));
+}
+
+describe("engine", () => {
+  describe("parseOptions", () => {
+    [
+      { text: "case=no", expected: { caseSensitive: false } },
+      { text: "numeric=yes", expected: { numeric: true } },
+      { text: "block=yes", expected: { block: true } },
+      { text: "skip_lines=2", expected: { skipLines: 2 } },
+      { text: "newline_separated=yes", expected: { newlineSeparated: 1 } },
+      { text: "newline_separated=2", expected: { newlineSeparated: 2 } },
+      { text: "prefix_order=INIT_,,FINAL_", expected: { prefixOrder: ["INIT_", "", "FINAL_"] } },
+      { text: "ignore_prefixes=[const, 'let']", expected: { ignorePrefixes: ["const", "let"] } },
+      { text: "remove_duplicates=no -->", expected: { removeDuplicates: false } },
+      { text: "numberic=yes", expected: { numeric: false } },
+      { text: "numeric=maybe", expected: { numeric: false } },
+      { text: "skip_lines=-1", expected: { skipLines: 0 } },
+    ].forEach(({ text, expected }) => {
+      it(`should parse "${text}"`, () => {
+        // Act
+        const options = parseOptions(text);
+
+        // Assert
+        expect(options).to.include(expected);
+      });
+    });
+
+    it("should parse by_regex patterns", () => {
+      // Act
+      const options = parseOptions("by_regex=['\\w+;', 'a,b']");
+
+      // Assert
+      expect(options.byRegex.map((r) => r.source)).to.deep.equal(["\\w+;", "a,b"]);
+    });
+
+    it("should parse by_regex patterns with character classes", () => {
+      // Act
+      const options = parseOptions("by_regex=['\\d+', '[0-9]'] numeric=yes");
+
+      // Assert
+      expect(options.byRegex.map((r) => r.source)).to.deep.equal(["\\d+", "[0-9]"]);
+      expect(options.numeric).to.be.true;
+    });
+
+    it("should parse by_regex patterns with RE2 flags", () => {
+      // Act
+      const options = parseOptions("by_regex=['(?i)foo', '(?i:a)b']");
+
+      // Assert
+      expect(options.byRegex.map((r) => [r.source, r.flags])).to.deep.equal([["foo", "i"]]);
+    });
+  });
+
+  describe("lint", () => {
+    it("should return no findings for sorted blocks", () => {
+      // Arrange
+      const text = "// keep-sorted start\na\nb\n// keep-sorted end\n";
+
+      // Act
+      const findings = lint(text, ANY_PATH);
+
+      // Assert
+      expect(findings).to.be.empty;
+    });
+
+    it("should return a finding with the sorted replacement for unsorted blocks", () => {
+      // Arrange
+      const text = "header\n// keep-sorted start\nb\na\n// keep-sorted end\n";
+
+      // Act
+      const findings = lint(text, ANY_PATH);
+
+      // Assert
+      expect(findings).to.deep.equal([
+        {
+          path: ANY_PATH,
+          lines: { start: 3, end: 4 },
+          message: "These lines are out of order.",
+          fixes: [{ replacements: [{ lines: { start: 3, end: 4 }, new_content: "a\nb\n" }] }],
+        },
+      ]);
+    });
+
+    it("should only lint blocks overlapping the given lines", () => {
+      // Arrange
+      const text =
+        "// keep-sorted start\nb\na\n// keep-sorted end\n// keep-sorted start\nd\nc\n// keep-sorted end\n";
+
+      // Act
+      const findings = lint(text, ANY_PATH, { start: 6, end: 6 });
+
+      // Assert
+      expect(findings.map((f) => f.lines)).to.deep.equal([{ start: 6, end: 7 }]);
+    });
+
+    [
+      {
+        name: "start without end",
+        text: "// keep-sorted start\nb\na\n",
+        expected: "This instruction doesn't have matching 'keep-sorted end' line.",
+      },
+      {
+        name: "end without start",
+        text: "b\na\n// keep-sorted end\n",
+        expected: "This instruction doesn't have matching 'keep-sorted start' line.",
+      },
+    ].forEach(({ name, text, expected }) => {
+      it(`should report ${name}`, () => {
+        // Act
+        const findings = lint(text, ANY_PATH);
+
+        // Assert
+        expect(findings.map((f) => f.message)).to.deep.equal([expected]);
+      });
+    });
+  });
+
+  describe("fix", () => {
+    [
+      {
+        name: "case insensitive",
+        text: "# keep-sorted start case=no\nBanana\napple\n# keep-sorted end\n",
+        expected: "# keep-sorted start case=no\napple\nBanana\n# keep-sorted end\n",
+      },
+      {
+        name: "by code point",
+        text: "# keep-sorted start\n😀\nＡ\n# keep-sorted end\n",
+        expected: "# keep-sorted start\nＡ\n😀\n# keep-sorted end\n",
+      },
+      {
+        name: "numeric",
+        text: "# keep-sorted start numeric=yes\nitem10\nitem2\n# keep-sorted end\n",
+        expected: "# keep-sorted start numeric=yes\nitem2\nitem10\n# keep-sorted end\n",
+      },
+      {
+        name: "sticky comments",
+        text: "# keep-sorted start\n# about b\nb\n# about a\na\n# keep-sorted end\n",
+        expected: "# keep-sorted start\n# about a\na\n# about b\nb\n# keep-sorted end\n",
+      },
+      {
+        name: "indented continuation lines",
+        text: "// keep-sorted start\nb\n  b1\na\n  a1\n// keep-sorted end\n",
+        expected: "// keep-sorted start\na\n  a1\nb\n  b1\n// keep-sorted end\n",
+      },
+      {
+        name: "duplicates",
+        text: "// keep-sorted start\nb\na\nb\n// keep-sorted end\n",
+        expected: "// keep-sorted start\na\nb\n// keep-sorted end\n",
+      },
+      {
+        name: "trailing commas",
+        text: "// keep-sorted start\nb,\na\n// keep-sorted end\n",
+        expected: "// keep-sorted start\na,\nb\n// keep-sorted end\n",
+      },
+      {
+        name: "nested blocks",
+        text: "# keep-sorted start\nb\n# keep-sorted start\nd\nc\n# keep-sorted end\na\n# keep-sorted end\n",
+        expected:
+          "# keep-sorted start\n# keep-sorted start\nc\nd\n# keep-sorted end\na\nb\n# keep-sorted end\n",
+      },
+    ].forEach(({ name, text, expected }) => {
+      it(`should sort ${name}`, () => {
+        // Act
+        const fixed = fix(text);
+
+        // Assert
+        expect(fixed).to.equal(expected);
+      });
+    });
+
+    it("should return null when already sorted", () => {
+      // Arrange
+      const text = "// keep-sorted start\na\nb\n// keep-sorted end\n";
+
+      // Act
+      const fixed = fix(text);
+
+      // Assert
+      expect(fixed).to.be.null;
+    });
+
+    it("should apply default options unless the directive overrides them", () => {
+      // Arrange
+      const text =
+        "# keep-sorted start\nBanana\napple\n# keep-sorted end\n" +
+        "# keep-sorted start case=yes\nBanana\napple\n# keep-sorted end\n";
+
+      // Act
+      const fixed = fix(text, "case=no");
+
+      // Assert
+      expect(fixed).to.equal(
+        "# keep-sorted start\napple\nBanana\n# keep-sorted end\n" +
+          "# keep-sorted start case=yes\nBanana\napple\n# keep-sorted end\n"
+      );
+    });
+  });
+
+  describe("golden", () => {
+    readdirSync(GOLDEN_DIR).forEach((filename) => {
+      const text = readFileSync(path.join(GOLDEN_DIR, filename), "utf-8");
+
+      it(`should lint ${filename} the same as the binary`, () => {
+        // Arrange
+        const expected = JSON.parse(runBinary(["--mode", "lint", "-"], text) || "[]");
+
+        // Act
+        const findings = lint(text, ANY_PATH);
+
+        // Assert
+        expect(withAnyPath(findings)).to.deep.equal(withAnyPath(expected));
+      });
+
+      it(`should fix ${filename} the same as the binary`, () => {
+        // Arrange
+        const expected = runBinary(["--mode", "fix", "-"], text);
+
+        // Act
+        const fixed = fix(text);
+
+        // Assert
+        expect(fixed ?? text).to.equal(expected);
+      });
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, beforeEach, afterEach } from "mocha";
+import { expect, use } from "chai";
+import * as sinon from "sinon";
+import sinonChai from "sinon-chai";
+import * as vscode from "vscode";
+import * as configuration from "../configuration";
+import {
+  BinaryCrashedError,
+  BinaryNotFoundError,
+  BlockNotFixableError,
+  CircuitOpenError,
+  handleError,
+  IntegrityError,
+  KeepSortedError,
+  MalformedOutputError,
+  NothingToFixError,
+  reactionTo,
+  TimeoutError,
+} from "../errors";
+import { notifier } from "../notifications";
+
+use(sinonChai);
+
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+
+const ANY_BINARY_PATH = "/bin/keep-sorted";
+const ANY_MESSAGE = "something failed";
+const ANY_HASH = "0".repeat(64);
+
+describe("errors", () => {
+  let sandbox: sinon.SinonSandbox;
+
+  beforeEach(() => {
+    sandbox = sinon.createSandbox();
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  describe("reactionTo", () => {
+    [
+      { err: new vscode.CancellationError(), expected: "ignore" },
+      { err: new NothingToFixError(), expected: "ignore" },
+      { err: new BlockNotFixableError(ANY_MESSAGE), expected: "ignore" },
+      { err: new CircuitOpenError(5), expected: "ignore" },
+      { err: new BinaryCrashedError("keep-sorted", 2, ANY_MESSAGE), expected: "notify" },
+      { err: new MalformedOutputError("not json"), expected: "notify" },
+      { err: new TimeoutError(ANY_MESSAGE, 10), expected: "notify" },
+      { err: new KeepSortedError(ANY_MESSAGE), expected: "notify" },
+      { err: new Error(ANY_MESSAGE), expected: "notify" },
+      { err: new BinaryNotFoundError(ANY_BINARY_PATH), expected: "disable" },
+      { err: new IntegrityError(ANY_MESSAGE, ANY_HASH, ANY_HASH), expected: "disable" },
+    ].forEach(({ err, expected }) => {
+      it(`should ${expected} ${err.name}`, () => {
+        // Act
+        const reaction = reactionTo(err);
+
+        // Assert
+        expect(reaction).to.equal(expected);
+      });
+    });
+  });
+
+  describe("handleError", () => {
+    let notifyStub: sinon.SinonStub;
+    let disableStub: sinon.SinonStub;
+
+    beforeEach(() => {
+      notifyStub = sandbox.stub(notifier, "notify").resolves();
+      disableStub = sandbox.stub(configuration, "disableForSession");
+    });
+
+    it("should not notify for expected failures", () => {
+      // Act
+      handleError(new NothingToFixError());
+
+      // Assert
+      expect(notifyStub).to.not.have.been.called;
+      expect(disableStub).to.not.have.been.called;
+    });
+
+    it("should notify with the failed document", () => {
+      // Arrange
+      const uri = vscode.Uri.file("/project/file.ts");
+
+      // Act
+      handleError(new BinaryCrashedError("keep-sorted", 2, ANY_MESSAGE), undefined, uri);
+
+      // Assert
+      expect(notifyStub).to.have.been.calledOnceWith(sinon.match(ANY_MESSAGE), {
+        uri,
+        disabled: false,
+      });
+      expect(disableStub).to.not.have.been.called;
+    });
+
+    it("should disable the extension for the session when the binary can never run", () => {
+      // Act
+      handleError(new BinaryNotFoundError(ANY_BINARY_PATH));
+
+      // Assert
+      expect(disableStub).to.have.been.calledOnce;
+      expect(notifyStub).to.have.been.calledOnceWith(sinon.match.string, {
+        uri: undefined,
+        disabled: true,
+      });
+    });
+
+    it("should disable the extension without notifying again for a failed integrity check", () => {
+      // Act
+      handleError(new IntegrityError(ANY_MESSAGE, ANY_HASH, ANY_HASH));
+
+      // Assert
+      expect(disableStub).to.have.been.calledOnce;
+      expect(notifyStub).to.not.have.been.called;
+    });
+  });
+});
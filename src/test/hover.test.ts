@@ -0,0 +1,127 @@
+import { describe, it, beforeEach, afterEach } from "mocha";
+import { expect } from "chai";
+import * as sinon from "sinon";
+import * as vscode from "vscode";
+import * as configuration from "../configuration";
+import { OPTION_DOCS, OPTION_NAMES } from "../directives";
+import { parseOptions } from "../engine";
+import { describeSorting, HoverProvider } from "../hover";
+
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+
+/** Creates a document with a single line. */
+function mockDocument(text: string): vscode.TextDocument {
+  return { lineAt: () => ({ text }) } as unknown as vscode.TextDocument;
+}
+
+/** Gets the markdown of a hover. */
+function hoverText(hover: vscode.Hover): string {
+  return hover.contents.map((content) => (content as vscode.MarkdownString).value).join("");
+}
+
+describe("hover", () => {
+  let sandbox: sinon.SinonSandbox;
+  let provider: HoverProvider;
+
+  beforeEach(() => {
+    sandbox = sinon.createSandbox();
+    provider = new HoverProvider();
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  it("should document every option", () => {
+    // Assert
+    expect(Object.keys(OPTION_DOCS)).to.have.members(OPTION_NAMES);
+  });
+
+  describe("describeSorting", () => {
+    [
+      { text: "", expected: "Numbers are compared as text, so 10 comes before 2." },
+      { text: "numeric=yes", expected: "Numbers are compared by value, so 2 comes before 10." },
+      { text: "case=no", expected: "Comparison ignores case." },
+      { text: "remove_duplicates=no", expected: "Duplicate lines are kept." },
+      { text: "skip_lines=2", expected: "The first 2 lines stay in place." },
+      { text: "newline_separated=2", expected: "Items are separated by 2 blank lines." },
+      {
+        text: "prefix_order=INIT_,,FINAL_",
+        expected: "Lines are ordered by prefix first: `INIT_`, other lines, `FINAL_`.",
+      },
+    ].forEach(({ text, expected }) => {
+      it(`should describe "${text}"`, () => {
+        // Act
+        const descriptions = describeSorting(parseOptions(text));
+
+        // Assert
+        expect(descriptions).to.include(expected);
+      });
+    });
+  });
+
+  describe("HoverProvider", () => {
+    const line = "// keep-sorted start numeric=yes case=no";
+
+    it("should document the hovered option and its effect on the block", () => {
+      // Act
+      const hover = provider.provideHover(
+        mockDocument(line),
+        new vscode.Position(0, 24)
+      ) as vscode.Hover;
+
+      // Assert
+      const text = hoverText(hover);
+      expect(text).to.include(OPTION_DOCS.numeric.description);
+      expect(text).to.include("Default: no");
+      expect(text).to.include(OPTION_DOCS.numeric.example);
+      expect(text).to.include("Comparison ignores case.");
+      expect(text).to.include("Lines starting with `//` move with the line below them.");
+      expect(hover.range).to.deep.equal(new vscode.Range(0, 21, 0, 32));
+    });
+
+    it("should describe the block when hovering the directive", () => {
+      // Act
+      const hover = provider.provideHover(
+        mockDocument(line),
+        new vscode.Position(0, 5)
+      ) as vscode.Hover;
+
+      // Assert
+      const text = hoverText(hover);
+      expect(text).to.include("keep-sorted start");
+      expect(text).to.include("Numbers are compared by value, so 2 comes before 10.");
+      expect(hover.range).to.deep.equal(new vscode.Range(0, 3, 0, line.length));
+    });
+
+    it("should apply the configured default options", () => {
+      // Arrange
+      sandbox
+        .stub(configuration, "getConfig")
+        .returns({ ...configuration.getConfig(), defaultOptions: "remove_duplicates=no" });
+
+      // Act
+      const hover = provider.provideHover(
+        mockDocument(line),
+        new vscode.Position(0, 5)
+      ) as vscode.Hover;
+
+      // Assert
+      expect(hoverText(hover)).to.include("Duplicate lines are kept.");
+    });
+
+    [
+      { text: "// keep-sorted end", character: 5 },
+      { text: "const alpha = 1;", character: 3 },
+      { text: "// keep-sorted start", character: 1 },
+    ].forEach(({ text, character }) => {
+      it(`should not hover "${text}" at ${character}`, () => {
+        // Act
+        const hover = provider.provideHover(mockDocument(text), new vscode.Position(0, character));
+
+        // Assert
+        expect(hover).to.be.undefined;
+      });
+    });
+  });
+});
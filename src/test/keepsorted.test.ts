@@ -5,8 +5,21 @@ import sinonChai from "sinon-chai";
 import * as vscode from "vscode";
 import * as childProcess from "child_process";
 import * as path from "path";
-import { readFileSync, writeFileSync } from "fs";
-import { KeepSorted } from "../keepsorted";
+import { createHash } from "crypto";
+import * as fs from "fs";
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from "fs";
+import * as os from "os";
+import { KeepSorted, KeepSortedFinding } from "../keepsorted";
+import {
+  BinaryCrashedError,
+  IntegrityError,
+  MalformedOutputError,
+  NothingToFixError,
+  TimeoutError,
+} from "../errors";
+import { isDirectiveDiagnostic } from "../diagnostics";
+import { ENGINE_VERSION } from "../engine";
+import * as configuration from "../configuration";
 import { EXT_WORKSPACE_DIR, TEST_WORKSPACE_DIR } from "./testing";
 import chaiAsPromised from "chai-as-promised";
 
@@ -35,7 +48,7 @@ const beta = 2;
   let keepSorted: KeepSorted;
   let sandbox: sinon.SinonSandbox;
 
-  function mockDocument(text = ""): vscode.TextDocument {
+  function mockDocument(text = "", eol = vscode.EndOfLine.LF): vscode.TextDocument {
     return {
       uri: vscode.Uri.file(path.join(TEST_WORKSPACE_DIR, "sample.ts")),
       fsPath: path.join(TEST_WORKSPACE_DIR, "sample.ts"),
@@ -45,14 +58,15 @@ const beta = 2;
       version: 1,
       isDirty: false,
       isClosed: false,
-      eol: vscode.EndOfLine.LF,
+      eol,
       lineCount: 10,
       getText: sandbox.stub().returns(text),
       positionAt: sandbox.stub().callsFake((offset: number) => new vscode.Position(0, offset)),
+      validateRange: sandbox.stub().callsFake((range: vscode.Range) => range),
     } as unknown as vscode.TextDocument;
   }
 
-  function mockChildProcess(exitCode: number, stdout: string, stderr = "") {
+  function mockChildProcess(exitCode: number | null, stdout: string | Buffer[], stderr = "") {
     const spawnStub = sandbox.stub(childProcess, "spawn");
     const mockProcess = createMockChildProcess(exitCode, stdout, stderr);
     spawnStub.returns(mockProcess);
@@ -99,6 +113,203 @@ const beta = 2;
     });
   });
 
+  describe("binary resolution", () => {
+    const missingBinaryPath = path.join(TEST_WORKSPACE_DIR, "does-not-exist", "keep-sorted");
+
+    function stubBinaryPathConfig(binaryPath: string) {
+      sandbox
+        .stub(configuration, "getConfig")
+        .returns({ ...configuration.getConfig(), binaryPath });
+    }
+
+    it("uses the configured binary when it is executable", () => {
+      // Arrange
+      stubBinaryPathConfig(process.execPath);
+
+      // Act
+      const actual = new KeepSorted(EXT_WORKSPACE_DIR);
+
+      // Assert
+      expect(actual.binaryPath).to.equal(process.execPath);
+    });
+
+    it("falls back to the bundled binary with a warning when configured binary is missing", () => {
+      // Arrange
+      stubBinaryPathConfig(missingBinaryPath);
+      const warningStub = sandbox.stub(vscode.window, "showWarningMessage").resolves(undefined);
+
+      // Act
+      const actual = new KeepSorted(EXT_WORKSPACE_DIR);
+
+      // Assert
+      expect(actual.binaryPath).to.not.equal(missingBinaryPath);
+      expect(actual.binaryPath.startsWith(path.join(EXT_WORKSPACE_DIR, "bin"))).to.be.true;
+      expect(warningStub).to.have.been.calledOnce;
+    });
+  });
+
+  describe("integrity", () => {
+    const binaryContent = "#!/bin/sh\n";
+    const binaryHash = createHash("sha256").update(binaryContent).digest("hex");
+    let binaryDir: string;
+    let binaryPath: string;
+
+    beforeEach(() => {
+      binaryDir = mkdtempSync(path.join(os.tmpdir(), "keep-sorted-"));
+      binaryPath = path.join(binaryDir, "keep-sorted");
+      writeFileSync(binaryPath, binaryContent);
+      chmodSync(binaryPath, 0o755);
+      sandbox
+        .stub(configuration, "getConfig")
+        .returns({ ...configuration.getConfig(), binaryPath });
+    });
+
+    afterEach(() => {
+      rmSync(binaryDir, { recursive: true, force: true });
+    });
+
+    it("should run the binary when its hash matches the manifest", async () => {
+      // Arrange
+      writeFileSync(`${binaryPath}.sha256`, binaryHash);
+      const spawnStub = mockChildProcess(0, "");
+      keepSorted = new KeepSorted(EXT_WORKSPACE_DIR);
+
+      // Act
+      const result = await keepSorted.lintDocument(mockDocument(sortedTextBlock));
+
+      // Assert
+      expect(result).to.be.empty;
+      expect(spawnStub).to.have.been.calledOnce;
+    });
+
+    it("should refuse to run a configured binary without a manifest", async () => {
+      // Arrange
+      const errorStub = sandbox.stub(vscode.window, "showErrorMessage").resolves(undefined);
+      const spawnStub = mockChildProcess(0, "");
+      keepSorted = new KeepSorted(EXT_WORKSPACE_DIR);
+
+      // Act & Assert
+      await expect(keepSorted.lintDocument(mockDocument(sortedTextBlock)))
+        .to.be.rejectedWith(IntegrityError)
+        .and.eventually.include({ expectedHash: undefined, actualHash: binaryHash });
+      expect(spawnStub).to.not.have.been.called;
+      expect(errorStub.firstCall.args[0]).to.include("keep-sorted.allowUnverifiedBinary");
+    });
+
+    it("should run a configured binary without a manifest when allowed, with a warning", async () => {
+      // Arrange
+      (configuration.getConfig as sinon.SinonStub).returns({
+        ...configuration.getConfig(),
+        allowUnverifiedBinary: true,
+      });
+      const warningStub = sandbox.stub(vscode.window, "showWarningMessage").resolves(undefined);
+      const spawnStub = mockChildProcess(0, "");
+      keepSorted = new KeepSorted(EXT_WORKSPACE_DIR);
+
+      // Act
+      await keepSorted.lintDocument(mockDocument(sortedTextBlock));
+      await keepSorted.lintDocument(mockDocument(unsortedTextBlock));
+
+      // Assert
+      expect(spawnStub).to.have.been.calledTwice;
+      expect(warningStub).to.have.been.calledOnce;
+      expect(warningStub.firstCall.args[0]).to.include("unverified");
+    });
+
+    it("should refuse to run the binary when its hash doesn't match the manifest", async () => {
+      // Arrange
+      writeFileSync(`${binaryPath}.sha256`, "0".repeat(64));
+      const errorStub = sandbox.stub(vscode.window, "showErrorMessage").resolves(undefined);
+      const spawnStub = mockChildProcess(0, "");
+      keepSorted = new KeepSorted(EXT_WORKSPACE_DIR);
+
+      // Act & Assert
+      await expect(keepSorted.lintDocument(mockDocument(sortedTextBlock)))
+        .to.be.rejectedWith(IntegrityError)
+        .and.eventually.include({ expectedHash: "0".repeat(64), actualHash: binaryHash });
+      await expect(keepSorted.detectVersion()).to.be.rejectedWith(IntegrityError);
+      expect(spawnStub).to.not.have.been.called;
+      expect(errorStub).to.have.been.calledOnce;
+    });
+  });
+
+  describe("detectVersion", () => {
+    it("should report the version of the bundled binary", async function () {
+      // Arrange
+      this.timeout(5000);
+
+      // Act
+      const version = await keepSorted.detectVersion();
+
+      // Assert
+      expect(version).to.match(/\d+\.\d+\.\d+/);
+      expect(keepSorted.version).to.equal(version);
+    });
+
+    it("should report the engine version when no binary can be spawned", async function () {
+      // Arrange
+      this.timeout(5000);
+      // No bundled binaries exist under the test workspace
+      keepSorted = new KeepSorted(TEST_WORKSPACE_DIR);
+
+      // Act
+      const version = await keepSorted.detectVersion();
+
+      // Assert
+      expect(version).to.equal(`${ENGINE_VERSION} (TypeScript engine)`);
+    });
+  });
+
+  describe("engine fallback", () => {
+    it("should lint with the engine when no binary can be spawned", async function () {
+      // Arrange
+      this.timeout(5000);
+      // No bundled binaries exist under the test workspace
+      keepSorted = new KeepSorted(TEST_WORKSPACE_DIR);
+
+      // Act
+      const result = await keepSorted.lintDocument(mockDocument(unsortedTextBlock));
+
+      // Assert
+      expect(result).to.have.length(1);
+      expect(result[0].message).to.include("out of order");
+    });
+
+    it("should fix with the engine when no binary can be spawned", async function () {
+      // Arrange
+      this.timeout(5000);
+      // No bundled binaries exist under the test workspace
+      keepSorted = new KeepSorted(TEST_WORKSPACE_DIR);
+
+      // Act
+      const edits = await keepSorted.createTextEdits(mockDocument(unsortedTextBlock));
+
+      // Assert
+      expect(edits.map((e) => e.newText)).to.deep.equal([sortedText]);
+    });
+
+    it("should use the engine for lints queued before falling back without pausing", async function () {
+      // Arrange
+      this.timeout(5000);
+      sandbox.stub(configuration, "getConfig").returns({
+        ...configuration.getConfig(),
+        maxConcurrentProcesses: 1,
+      });
+      const errorStub = sandbox.stub(vscode.window, "showErrorMessage");
+      // No bundled binaries exist under the test workspace
+      keepSorted = new KeepSorted(TEST_WORKSPACE_DIR);
+
+      // Act
+      const results = await Promise.all(
+        Array.from({ length: 10 }, () => keepSorted.lintDocument(mockDocument(unsortedTextBlock)))
+      );
+
+      // Assert
+      expect(results.map((result) => result.length)).to.deep.equal(Array(10).fill(1));
+      expect(errorStub).to.not.have.been.called;
+    });
+  });
+
   describe("lintDocument", () => {
     it("should return empty array when no issues found", async function () {
       // Arrange
@@ -125,13 +336,66 @@ const beta = 2;
       expect(result![0].source).to.equal("keep-sorted");
     });
 
+    it("should use the configured severity of the document's folder and language", async () => {
+      // Arrange
+      const severityStub = sandbox
+        .stub(configuration, "getSeverity")
+        .returns(vscode.DiagnosticSeverity.Hint);
+      const document = mockDocument(unsortedTextBlock);
+
+      // Act
+      const result = await keepSorted.lintDocument(document);
+
+      // Assert
+      expect(severityStub).to.have.been.calledWith(document.uri, "typescript");
+      expect(result.map((d) => d.severity)).to.deep.equal([vscode.DiagnosticSeverity.Hint]);
+    });
+
+    it("should report directive problems instead of the binary's unmatched findings", async () => {
+      // Arrange
+      const finding: KeepSortedFinding = {
+        path: "-",
+        lines: { start: 1, end: 1 },
+        message: "This instruction doesn't have matching 'keep-sorted end' line.",
+        fixes: [],
+      };
+      mockChildProcess(1, JSON.stringify([finding]));
+
+      // Act
+      const result = await keepSorted.lintDocument(
+        mockDocument("// keep-sorted start numberic=yes\nb\na\n")
+      );
+
+      // Assert
+      expect(
+        result.map((d) => [d.message, d.range.start.character, d.range.end.character])
+      ).to.deep.equal([
+        ['Unknown option "numberic", did you mean "numeric"?', 21, 29],
+        ['"keep-sorted start" without a matching "keep-sorted end"', 3, 20],
+      ]);
+      expect(result.every(isDirectiveDiagnostic)).to.be.true;
+    });
+
     it(`should throw error on non-zero/non-one exit code`, async function () {
       // Arrange
       this.timeout(5000);
       mockChildProcess(2, "", errorMessage);
 
       // Act & Assert
-      expect(keepSorted.lintDocument(mockDocument())).to.be.rejectedWith(Error, errorMessage);
+      await expect(keepSorted.lintDocument(mockDocument()))
+        .to.be.rejectedWith(BinaryCrashedError, errorMessage)
+        .and.eventually.include({ exitCode: 2, stderr: errorMessage });
+    });
+
+    it("should throw a malformed output error when findings can't be parsed", async function () {
+      // Arrange
+      this.timeout(5000);
+      mockChildProcess(1, "not json");
+
+      // Act & Assert
+      await expect(keepSorted.lintDocument(mockDocument(unsortedTextBlock)))
+        .to.be.rejectedWith(MalformedOutputError)
+        .and.eventually.have.property("output", "not json");
     });
 
     it("should lint test-workspace/sample.ts", async function () {
@@ -160,35 +424,167 @@ const beta = 2;
     });
   });
 
-  describe("fixDocument", () => {
-    let originalDocumentText = "";
+  describe("cancellation and timeouts", () => {
+    function stubTimeoutConfig(timeoutMs: number) {
+      sandbox.stub(configuration, "getConfig").returns({ ...configuration.getConfig(), timeoutMs });
+    }
 
-    beforeEach(() => {
-      originalDocumentText = readFileSync(path.join(TEST_WORKSPACE_DIR, "sample.ts"), "utf-8");
+    it("should kill the process and reject when cancelled", async () => {
+      // Arrange
+      const spawnStub = mockChildProcess(null, "");
+      const tokenSource = new vscode.CancellationTokenSource();
+
+      // Act
+      const linting = keepSorted.lintDocument(mockDocument(unsortedTextBlock), tokenSource.token);
+      await new Promise((resolve) => setImmediate(resolve));
+      tokenSource.cancel();
+
+      // Assert
+      await expect(linting).to.be.rejectedWith(vscode.CancellationError);
+      expect(spawnStub.getCall(0).returnValue.kill).to.have.been.calledOnce;
     });
 
-    afterEach(() => {
-      writeFileSync(path.join(TEST_WORKSPACE_DIR, "sample.ts"), originalDocumentText);
+    it("should not spawn the process when already cancelled", async () => {
+      // Arrange
+      const spawnStub = mockChildProcess(0, "");
+      const tokenSource = new vscode.CancellationTokenSource();
+      tokenSource.cancel();
+
+      // Act & Assert
+      await expect(
+        keepSorted.createTextEdits(mockDocument(unsortedTextBlock), undefined, tokenSource.token)
+      ).to.be.rejectedWith(vscode.CancellationError);
+      expect(spawnStub).to.not.have.been.called;
     });
 
-    it("should throw error on non-zero/non-one exit code", async function () {
+    it("should kill the process and reject with a timeout error when it hangs", async () => {
       // Arrange
-      this.timeout(5000);
-      mockChildProcess(2, "", errorMessage);
+      const timeoutMs = 10;
+      stubTimeoutConfig(timeoutMs);
+      const spawnStub = mockChildProcess(null, "");
 
       // Act & Assert
-      expect(keepSorted.fixDocument(mockDocument(), range)).to.be.rejectedWith(Error, errorMessage);
+      await expect(keepSorted.lintDocument(mockDocument(unsortedTextBlock)))
+        .to.be.rejectedWith(TimeoutError)
+        .and.eventually.have.property("timeoutMs", timeoutMs);
+      expect(spawnStub.getCall(0).returnValue.kill).to.have.been.calledOnce;
     });
 
-    it("should fix unsorted content using real binary", async function () {
+    it("should allow a batch of files the timeout of each file", async () => {
       // Arrange
-      this.timeout(5000);
+      const clock = sandbox.useFakeTimers();
+      stubTimeoutConfig(1000);
+      const uris = ["one.ts", "two.ts"].map((file) =>
+        vscode.Uri.file(path.join(TEST_WORKSPACE_DIR, file))
+      );
+      const spawnStub = sandbox
+        .stub(childProcess, "spawn")
+        .callsFake(() => createMockChildProcess(null, "", ""));
 
       // Act
-      const result = await keepSorted.fixDocument(mockDocument(unsortedTextBlock), range);
+      const linting = keepSorted.lintFiles(uris);
+      await clock.tickAsync(1500);
 
       // Assert
-      expect(result).to.be.equal(sortedText);
+      void expect(spawnStub.getCall(0).returnValue.kill).to.not.have.been.called;
+      // Past the batch timeout, then past the timeouts of each file linted on its own
+      await clock.tickAsync(2000);
+      const { failures } = await linting;
+      expect(spawnStub).to.have.been.calledThrice;
+      expect(failures.map(({ error }) => error instanceof TimeoutError)).to.deep.equal([
+        true,
+        true,
+      ]);
+    });
+
+    it("should cap the timeout of a large batch", async () => {
+      // Arrange
+      const clock = sandbox.useFakeTimers();
+      stubTimeoutConfig(20000);
+      const uris = ["one.ts", "two.ts", "three.ts", "four.ts"].map((file) =>
+        vscode.Uri.file(path.join(TEST_WORKSPACE_DIR, file))
+      );
+      const spawnStub = sandbox
+        .stub(childProcess, "spawn")
+        .callsFake(() => createMockChildProcess(null, "", ""));
+
+      // Act
+      const linting = keepSorted.lintFiles(uris);
+      await clock.tickAsync(60000);
+
+      // Assert
+      expect(spawnStub.getCall(0).returnValue.kill).to.have.been.calledOnce;
+      // Past the timeouts of each file linted on its own
+      await clock.tickAsync(100000);
+      const { failures } = await linting;
+      expect(failures).to.have.length(4);
+    });
+
+    it("should not time out when the timeout is disabled", async () => {
+      // Arrange
+      stubTimeoutConfig(0);
+      mockChildProcess(0, "");
+
+      // Act
+      const result = await keepSorted.lintDocument(mockDocument(sortedTextBlock));
+
+      // Assert
+      expect(result).to.be.empty;
+    });
+  });
+
+  describe("createTextEdits", () => {
+    function finding(start: number, end: number, newContent: string): KeepSortedFinding {
+      return {
+        path: "-",
+        lines: { start, end },
+        message: "These lines are out of order.",
+        fixes: [{ replacements: [{ lines: { start, end }, new_content: newContent }] }],
+      };
+    }
+
+    it("should create an edit for every replacement", async () => {
+      // Arrange
+      const findings = [finding(2, 3, "a\nb\n"), finding(6, 8, "c\nd\ne\n")];
+      mockChildProcess(1, JSON.stringify(findings));
+
+      // Act
+      const edits = await keepSorted.createTextEdits(mockDocument(unsortedTextBlock));
+
+      // Assert
+      expect(edits.map((e) => [e.range, e.newText])).to.deep.equal([
+        [new vscode.Range(1, 0, 3, 0), "a\nb\n"],
+        [new vscode.Range(5, 0, 8, 0), "c\nd\ne\n"],
+      ]);
+    });
+
+    it("should edit only the changed lines of the fixed document when replacements overlap", async () => {
+      // Arrange
+      const findings = [finding(2, 8, "outer\n"), finding(4, 5, "inner\n")];
+      const spawnStub = sandbox.stub(childProcess, "spawn");
+      spawnStub.onFirstCall().returns(createMockChildProcess(1, JSON.stringify(findings), ""));
+      spawnStub.onSecondCall().returns(createMockChildProcess(1, sortedTextBlock, ""));
+      const document = mockDocument(unsortedTextBlock);
+
+      // Act
+      const edits = await keepSorted.createTextEdits(document);
+
+      // Assert
+      expect(edits.map((e) => [e.range, e.newText])).to.deep.equal([
+        [new vscode.Range(1, 0, 2, 0), ""],
+        [new vscode.Range(4, 0, 4, 0), "const delta = 4;\n"],
+      ]);
+    });
+
+    it("should not fix the whole document when there are no findings in the range", async () => {
+      // Arrange
+      const spawnStub = mockChildProcess(0, "");
+
+      // Act & Assert
+      await expect(
+        keepSorted.createTextEdits(mockDocument(unsortedTextBlock), range)
+      ).to.be.rejectedWith(NothingToFixError);
+      expect(spawnStub).to.have.been.calledOnce;
     });
 
     it("should throw an error when no fixes present", async function () {
@@ -196,37 +592,362 @@ const beta = 2;
       this.timeout(5000);
 
       // Act & Assert
-      expect(keepSorted.fixDocument(mockDocument(sortedTextBlock), range)).to.be.rejectedWith(
-        Error,
-        "No findings to fix"
+      await expect(
+        keepSorted.createTextEdits(mockDocument(sortedTextBlock), range)
+      ).to.be.rejectedWith(NothingToFixError);
+    });
+
+    it("should throw error on non-zero/non-one exit code", async function () {
+      // Arrange
+      this.timeout(5000);
+      mockChildProcess(2, "", errorMessage);
+
+      // Act & Assert
+      await expect(keepSorted.createTextEdits(mockDocument())).to.be.rejectedWith(
+        BinaryCrashedError,
+        errorMessage
       );
     });
 
+    it("should fix unsorted content using real binary", async function () {
+      // Arrange
+      this.timeout(5000);
+
+      // Act
+      const edits = await keepSorted.createTextEdits(mockDocument(unsortedTextBlock));
+
+      // Assert
+      expect(edits.map((e) => e.newText)).to.deep.equal([sortedText]);
+    });
+
     it("should fix test-workspace/sample.ts", async function () {
+      // Arrange
       this.timeout(10 * 1000); // Allow more time for binary execution
-
-      // Open the sample file
       const sampleUri = vscode.Uri.file(path.join(TEST_WORKSPACE_DIR, "sample.ts"));
       const document = await vscode.workspace.openTextDocument(sampleUri);
 
-      // Fix the entire document
-      const result = await keepSorted.fixDocument(
-        document,
-        new vscode.Range(0, 0, document.lineCount, 0)
-      );
-      expect(result).to.equal(
+      // Act
+      const edits = await keepSorted.createTextEdits(document);
+
+      // Assert
+      expect(edits.map((e) => e.newText)).to.deep.equal([
         `const alpha = "alpha";
 const beta = "beta";
 const delta = "delta";
 const zebra = "zebra";
-`
+`,
+      ]);
+    });
+  });
+
+  describe("configured arguments", () => {
+    it("should pass the default options and extra args to the binary", async () => {
+      // Arrange
+      sandbox.stub(configuration, "getConfig").returns({
+        ...configuration.getConfig(),
+        defaultOptions: "case=no",
+        extraArgs: ["--id=sorted"],
+      });
+      const spawnStub = mockChildProcess(0, "");
+
+      // Act
+      await keepSorted.lintDocument(mockDocument(sortedTextBlock));
+
+      // Assert
+      expect(spawnStub.getCall(0).args[1]).to.deep.equal([
+        "--mode",
+        "lint",
+        "--default-options",
+        "case=no",
+        "--id=sorted",
+        "-",
+      ]);
+    });
+
+    it("should apply the default options using the engine", async function () {
+      // Arrange
+      this.timeout(5000);
+      sandbox.stub(configuration, "getConfig").returns({
+        ...configuration.getConfig(),
+        defaultOptions: "case=no",
+      });
+      // No bundled binaries exist under the test workspace
+      keepSorted = new KeepSorted(TEST_WORKSPACE_DIR);
+      const text = "// keep-sorted start\nBanana\napple\n// keep-sorted end\n";
+
+      // Act
+      const edits = await keepSorted.createTextEdits(mockDocument(text));
+
+      // Assert
+      expect(edits.map((e) => e.newText)).to.deep.equal(["apple\nBanana\n"]);
+    });
+  });
+
+  describe("lintFiles", () => {
+    function fileFinding(filePath: string, start: number, end: number): KeepSortedFinding {
+      return {
+        path: filePath,
+        lines: { start, end },
+        message: "These lines are out of order.",
+        fixes: [],
+      };
+    }
+
+    it("should lint all files in one process and split the findings by path", async () => {
+      // Arrange
+      const one = vscode.Uri.file(path.join(TEST_WORKSPACE_DIR, "one.ts"));
+      const two = vscode.Uri.file(path.join(TEST_WORKSPACE_DIR, "two.ts"));
+      const three = vscode.Uri.file(path.join(TEST_WORKSPACE_DIR, "three.ts"));
+      const findings = [
+        fileFinding(one.fsPath, 2, 4),
+        fileFinding(three.fsPath, 1, 3),
+        fileFinding(one.fsPath, 8, 9),
+      ];
+      const spawnStub = mockChildProcess(1, JSON.stringify(findings));
+
+      // Act
+      const { diagnostics, failures } = await keepSorted.lintFiles([one, two, three]);
+
+      // Assert
+      expect(spawnStub).to.have.been.calledOnce;
+      expect(spawnStub.getCall(0).args[1]).to.deep.equal([
+        "--mode",
+        "lint",
+        one.fsPath,
+        two.fsPath,
+        three.fsPath,
+      ]);
+      expect(failures).to.be.empty;
+      expect(
+        diagnostics.map(([uri, fileDiagnostics]) => [uri, fileDiagnostics.map((d) => d.range)])
+      ).to.deep.equal([
+        [one, [new vscode.Range(1, 0, 4, 0), new vscode.Range(7, 0, 9, 0)]],
+        [two, []],
+        [three, [new vscode.Range(0, 0, 3, 0)]],
+      ]);
+    });
+
+    it("should split files into batches that fit on a command line", async () => {
+      // Arrange
+      const uris = Array.from({ length: 2000 }, (_, i) =>
+        vscode.Uri.file(path.join(TEST_WORKSPACE_DIR, "a".repeat(40), `${i}.ts`))
+      );
+      const spawnStub = sandbox
+        .stub(childProcess, "spawn")
+        .callsFake(() => createMockChildProcess(0, "", ""));
+
+      const onProgress = sandbox.stub();
+
+      // Act
+      const { diagnostics } = await keepSorted.lintFiles(uris, undefined, onProgress);
+
+      // Assert
+      expect(onProgress.callCount).to.equal(spawnStub.callCount);
+      expect(onProgress.lastCall.args[0]).to.equal(uris.length);
+      expect(spawnStub.callCount).to.be.greaterThan(1).and.lessThan(10);
+      const linted = spawnStub.getCalls().flatMap((call) => (call.args[1] as string[]).slice(2));
+      expect(linted).to.deep.equal(uris.map((uri) => uri.fsPath));
+      expect(diagnostics).to.have.length(uris.length);
+    });
+
+    it("should read the files from disk using the engine", async function () {
+      // Arrange
+      this.timeout(5000);
+      // No bundled binaries exist under the test workspace
+      keepSorted = new KeepSorted(TEST_WORKSPACE_DIR);
+      const sample = vscode.Uri.file(path.join(TEST_WORKSPACE_DIR, "sample.ts"));
+      const sorted = vscode.Uri.file(path.join(TEST_WORKSPACE_DIR, "sample_sorted.ts"));
+
+      // Act
+      const { diagnostics } = await keepSorted.lintFiles([sample, sorted]);
+
+      // Assert
+      expect(diagnostics.map(([, fileDiagnostics]) => fileDiagnostics.length)).to.deep.equal([
+        2, 0,
+      ]);
+    });
+
+    it("should report directive problems of files without findings", async () => {
+      // Arrange
+      const dir = mkdtempSync(path.join(os.tmpdir(), "keep-sorted-"));
+      const typo = vscode.Uri.file(path.join(dir, "typo.ts"));
+      const plain = vscode.Uri.file(path.join(dir, "plain.ts"));
+      writeFileSync(typo.fsPath, "// keep-sorted start numberic=yes\na\nb\n// keep-sorted end\n");
+      writeFileSync(plain.fsPath, "const a = 1;\n");
+      mockChildProcess(0, "");
+
+      try {
+        // Act
+        const { diagnostics } = await keepSorted.lintFiles([typo, plain]);
+
+        // Assert
+        expect(diagnostics.map(([uri, d]) => [uri, d.map((x) => x.message)])).to.deep.equal([
+          [typo, ['Unknown option "numberic", did you mean "numeric"?']],
+          [plain, []],
+        ]);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should bound the files read at once using the engine", async () => {
+      // Arrange
+      sandbox.stub(configuration, "getConfig").returns({
+        ...configuration.getConfig(),
+        maxConcurrentProcesses: 2,
+      });
+      // No bundled binaries exist under the test workspace
+      keepSorted = new KeepSorted(TEST_WORKSPACE_DIR);
+      await keepSorted.detectVersion();
+      let reading = 0;
+      let maxReading = 0;
+      sandbox.stub(fs.promises, "readFile").callsFake(async () => {
+        maxReading = Math.max(maxReading, ++reading);
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        reading--;
+        return "";
+      });
+      const uris = Array.from({ length: 10 }, (_, i) =>
+        vscode.Uri.file(path.join(TEST_WORKSPACE_DIR, `${i}.ts`))
       );
+
+      // Act
+      const { diagnostics } = await keepSorted.lintFiles(uris);
+
+      // Assert
+      expect(diagnostics).to.have.length(uris.length);
+      expect(maxReading).to.equal(2);
+    });
+
+    it("should lint each file of a failed batch on its own and report the failing ones", async () => {
+      // Arrange
+      const good = vscode.Uri.file(path.join(TEST_WORKSPACE_DIR, "good.ts"));
+      const bad = vscode.Uri.file(path.join(TEST_WORKSPACE_DIR, "bad.ts"));
+      const spawnStub = sandbox
+        .stub(childProcess, "spawn")
+        .callsFake((_binary, args) =>
+          (args as string[]).includes(bad.fsPath)
+            ? createMockChildProcess(2, "", errorMessage)
+            : createMockChildProcess(1, JSON.stringify([fileFinding(good.fsPath, 2, 4)]), "")
+        );
+
+      // Act
+      const { diagnostics, failures } = await keepSorted.lintFiles([good, bad]);
+
+      // Assert
+      expect(spawnStub).to.have.been.calledThrice;
+      expect(diagnostics.map(([uri, d]) => [uri, d.length])).to.deep.equal([[good, 1]]);
+      expect(failures.map(({ uri }) => uri)).to.deep.equal([bad]);
+      expect(failures[0].error).to.be.instanceOf(BinaryCrashedError);
+    });
+  });
+
+  describe("encoding and line endings", () => {
+    const unicodeUnsortedBlock = `// keep-sorted start
+const 🦓 = "zebra";
+const 漢字 = "kanji";
+const 😀 = "grin";
+// keep-sorted end
+`;
+    const unicodeSortedLines = `const 漢字 = "kanji";
+const 😀 = "grin";
+const 🦓 = "zebra";
+`;
+
+    it("should decode multi-byte characters split across output chunks", async () => {
+      // Arrange
+      const findings: KeepSortedFinding[] = [
+        {
+          path: "-",
+          lines: { start: 2, end: 4 },
+          message: "These lines are out of order.",
+          fixes: [
+            { replacements: [{ lines: { start: 2, end: 4 }, new_content: unicodeSortedLines }] },
+          ],
+        },
+      ];
+      const output = Buffer.from(JSON.stringify(findings));
+      // Split in the middle of the four byte zebra emoji
+      const split = output.indexOf(Buffer.from("🦓")) + 2;
+      mockChildProcess(1, [output.subarray(0, split), output.subarray(split)]);
+
+      // Act
+      const edits = await keepSorted.createTextEdits(mockDocument(unicodeUnsortedBlock));
+
+      // Assert
+      expect(edits.map((e) => e.newText)).to.deep.equal([unicodeSortedLines]);
+    });
+
+    it("should send LF line endings to the binary for CRLF documents", async () => {
+      // Arrange
+      const spawnStub = mockChildProcess(0, "");
+
+      // Act
+      await keepSorted.lintDocument(
+        mockDocument(unsortedTextBlock.replace(/\n/g, "\r\n"), vscode.EndOfLine.CRLF)
+      );
+
+      // Assert
+      const child = spawnStub.getCall(0).returnValue;
+      expect(child.stdin!.write).to.have.been.calledWith(unsortedTextBlock);
+    });
+
+    it("should restore CRLF line endings in fixes", async () => {
+      // Arrange
+      const findings: KeepSortedFinding[] = [
+        {
+          path: "-",
+          lines: { start: 2, end: 4 },
+          message: "These lines are out of order.",
+          fixes: [{ replacements: [{ lines: { start: 2, end: 4 }, new_content: sortedText }] }],
+        },
+      ];
+      mockChildProcess(1, JSON.stringify(findings));
+      const document = mockDocument(
+        unsortedTextBlock.replace(/\n/g, "\r\n"),
+        vscode.EndOfLine.CRLF
+      );
+
+      // Act
+      const edits = await keepSorted.createTextEdits(document);
+
+      // Assert
+      expect(edits.map((e) => e.newText)).to.deep.equal([sortedText.replace(/\n/g, "\r\n")]);
+    });
+
+    [
+      { name: "emoji and CJK", eol: vscode.EndOfLine.LF, newline: "\n" },
+      { name: "emoji and CJK with CRLF", eol: vscode.EndOfLine.CRLF, newline: "\r\n" },
+    ].forEach(({ name, eol, newline }) => {
+      it(`should fix ${name} using the engine`, async () => {
+        // Arrange
+        keepSorted = new KeepSorted(TEST_WORKSPACE_DIR);
+        const document = mockDocument(unicodeUnsortedBlock.replace(/\n/g, newline), eol);
+
+        // Act
+        const edits = await keepSorted.createTextEdits(document);
+
+        // Assert
+        expect(edits.map((e) => e.newText)).to.deep.equal([
+          unicodeSortedLines.replace(/\n/g, newline),
+        ]);
+      });
     });
   });
 });
 
-/** Creates a mock child process with event emitters for testing. */
-function createMockChildProcess(exitCode: number, stdout: string, stderr: string) {
+/**
+ * Creates a mock child process with event emitters for testing.
+ *
+ * A null exit code simulates a hung process that never exits unless killed.
+ */
+function createMockChildProcess(
+  exitCode: number | null,
+  stdout: string | Buffer[],
+  stderr: string
+) {
+  // Chunks allow simulating output split in the middle of a multi-byte character
+  const stdoutChunks = typeof stdout === "string" ? [Buffer.from(stdout)] : stdout;
   const stdinMock = {
     write: sinon.stub(),
     end: sinon.stub(),
@@ -234,9 +955,9 @@ function createMockChildProcess(exitCode: number, stdout: string, stderr: string
 
   const stdoutMock = {
     on: sinon.stub().callsFake((event: string, callback: (data: Buffer) => void) => {
-      if (event === "data" && stdout) {
+      if (event === "data" && stdout.length > 0) {
         // Simulate async data emission
-        setTimeout(() => callback(Buffer.from(stdout)), 0);
+        setTimeout(() => stdoutChunks.forEach((chunk) => callback(chunk)), 0);
       }
     }),
   };
@@ -254,11 +975,12 @@ function createMockChildProcess(exitCode: number, stdout: string, stderr: string
     stdout: stdoutMock,
     stderr: stderrMock,
     on: sinon.stub().callsFake((event: string, callback: (code: number) => void) => {
-      if (event === "close") {
+      if (event === "close" && exitCode !== null) {
         // Simulate async close event
         setTimeout(() => callback(exitCode), 0);
       }
     }),
+    kill: sinon.stub().returns(true),
   };
 
   return processMock as unknown as childProcess.ChildProcess;
@@ -0,0 +1,108 @@
+import { describe, it, beforeEach, afterEach } from "mocha";
+import { expect, use } from "chai";
+import * as sinon from "sinon";
+import sinonChai from "sinon-chai";
+import * as vscode from "vscode";
+import * as configuration from "../configuration";
+import { DISABLE_FOR_SESSION, EXCLUDE_FILE, FailureNotifier, OPEN_LOGS } from "../notifications";
+
+use(sinonChai);
+
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+
+const ANY_MESSAGE = "keep-sorted failed with code 2";
+const ANY_URI = vscode.Uri.file("/project/file.ts");
+const OTHER_URI = vscode.Uri.file("/project/other.ts");
+
+describe("notifications", () => {
+  let sandbox: sinon.SinonSandbox;
+  let showErrorStub: sinon.SinonStub;
+
+  beforeEach(() => {
+    sandbox = sinon.createSandbox();
+    showErrorStub = sandbox.stub(vscode.window, "showErrorMessage").resolves(undefined);
+  });
+
+  afterEach(() => {
+    sandbox.restore();
+  });
+
+  describe("FailureNotifier", () => {
+    it("should offer to exclude the file and disable the extension", async () => {
+      // Arrange
+      const notifier = new FailureNotifier();
+
+      // Act
+      await notifier.notify(ANY_MESSAGE, { uri: ANY_URI });
+
+      // Assert
+      expect(showErrorStub).to.have.been.calledOnceWith(
+        sinon.match("file.ts").and(sinon.match(ANY_MESSAGE)),
+        OPEN_LOGS,
+        EXCLUDE_FILE,
+        DISABLE_FOR_SESSION
+      );
+    });
+
+    it("should not offer to disable the extension when already disabled", async () => {
+      // Arrange
+      const notifier = new FailureNotifier();
+
+      // Act
+      await notifier.notify(ANY_MESSAGE, { disabled: true });
+
+      // Assert
+      expect(showErrorStub).to.have.been.calledOnceWith(sinon.match.string, OPEN_LOGS);
+    });
+
+    it("should group failures of a document while its notification is open", async () => {
+      // Arrange
+      const notifier = new FailureNotifier();
+      let dismiss: (choice: undefined) => void = () => {};
+      showErrorStub.onFirstCall().returns(new Promise<undefined>((resolve) => (dismiss = resolve)));
+      const first = notifier.notify(ANY_MESSAGE, { uri: ANY_URI });
+
+      // Act
+      await notifier.notify(ANY_MESSAGE, { uri: ANY_URI });
+      await notifier.notify(ANY_MESSAGE, { uri: OTHER_URI });
+      dismiss(undefined);
+      await first;
+      await notifier.notify(ANY_MESSAGE, { uri: ANY_URI });
+
+      // Assert
+      expect(showErrorStub).to.have.been.calledThrice;
+      expect(showErrorStub.secondCall.args[0]).to.include("other.ts");
+      expect(showErrorStub.thirdCall.args[0]).to.include("(2 times)");
+    });
+
+    it("should rate limit notifications", async () => {
+      // Arrange
+      const notifier = new FailureNotifier(1);
+
+      // Act
+      await notifier.notify(ANY_MESSAGE, { uri: ANY_URI });
+      await notifier.notify(ANY_MESSAGE, { uri: OTHER_URI });
+
+      // Assert
+      expect(showErrorStub).to.have.been.calledOnce;
+    });
+
+    [
+      { action: EXCLUDE_FILE, stubbed: "excludeFile" as const },
+      { action: DISABLE_FOR_SESSION, stubbed: "disableForSession" as const },
+    ].forEach(({ action, stubbed }) => {
+      it(`should run "${action}" when chosen`, async () => {
+        // Arrange
+        const notifier = new FailureNotifier();
+        showErrorStub.resolves(action);
+        const actionStub = sandbox.stub(configuration, stubbed).resolves();
+
+        // Act
+        await notifier.notify(ANY_MESSAGE, { uri: ANY_URI });
+
+        // Assert
+        expect(actionStub).to.have.been.calledOnce;
+      });
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, beforeEach } from "mocha";
+import { expect } from "chai";
+import * as path from "path";
+import * as vscode from "vscode";
+import { OutlineProvider } from "../outline";
+import { TEST_WORKSPACE_DIR } from "./testing";
+
+const MIXED_BLOCKS_FILE = path.join(TEST_WORKSPACE_DIR, "mixed_blocks.ts");
+
+const ANY_URI = vscode.Uri.file("/any/config.ts");
+
+/** Creates a document of the lines, supporting only what the provider reads. */
+function mockDocument(lines: string[]): vscode.TextDocument {
+  return { uri: ANY_URI, getText: () => lines.join("\n") } as unknown as vscode.TextDocument;
+}
+
+/** Gets the names of the symbols as a tree, such as `["a", ["b"]]` for a child b of a. */
+function names(symbols: vscode.DocumentSymbol[]): unknown[] {
+  return symbols.flatMap((s) => (s.children.length > 0 ? [s.name, names(s.children)] : [s.name]));
+}
+
+describe("outline", () => {
+  describe("OutlineProvider", () => {
+    const lines = [
+      "const config = {", // 0
+      "  // keep-sorted start numeric=yes", // 1
+      "  alpha: 1,", // 2
+      "  // keep-sorted start", // 3
+      "  beta: 2,", // 4
+      "  // keep-sorted end", // 5
+      "  // keep-sorted end", // 6
+      "};", // 7
+      "# keep-sorted start", // 8
+      "", // 9
+      "# keep-sorted end", // 10
+    ];
+    let provider: OutlineProvider;
+
+    beforeEach(() => {
+      provider = new OutlineProvider();
+    });
+
+    it("should fold every block from its start to its end directive", () => {
+      // Act
+      const ranges = provider.provideFoldingRanges(mockDocument(lines));
+
+      // Assert
+      expect(ranges.map(({ start, end, kind }) => [start, end, kind])).to.deep.equal([
+        [1, 6, vscode.FoldingRangeKind.Region],
+        [3, 5, vscode.FoldingRangeKind.Region],
+        [8, 10, vscode.FoldingRangeKind.Region],
+      ]);
+    });
+
+    it("should name blocks after their options and first item, nesting inner blocks", () => {
+      // Act
+      const symbols = provider.provideDocumentSymbols(mockDocument(lines));
+
+      // Assert
+      expect(names(symbols)).to.deep.equal([
+        "keep-sorted numeric=yes: alpha: 1,",
+        ["keep-sorted: beta: 2,"],
+        "keep-sorted",
+      ]);
+      expect(symbols[0].selectionRange).to.deep.equal(new vscode.Range(1, 5, 1, 22));
+    });
+
+    it("should provide symbols through VS Code's document symbol command", async function () {
+      // Arrange
+      this.timeout(5000);
+      const document = await vscode.workspace.openTextDocument(MIXED_BLOCKS_FILE);
+      const registration = vscode.languages.registerDocumentSymbolProvider(
+        { pattern: "**/mixed_blocks.ts" },
+        provider
+      );
+
+      try {
+        // Act
+        const symbols = await vscode.commands.executeCommand<vscode.DocumentSymbol[]>(
+          "vscode.executeDocumentSymbolProvider",
+          document.uri
+        );
+
+        // Assert
+        expect(symbols.map((s) => s.name)).to.include.members([
+          'keep-sorted: const zebra = "zebra";',
+          "keep-sorted numeric=yes: const item10 = 10;",
+        ]);
+      } finally {
+        registration.dispose();
+      }
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it } from "mocha";
+import { expect, use } from "chai";
+import chaiAsPromised from "chai-as-promised";
+import { ProcessPool } from "../pool";
+
+use(chaiAsPromised);
+
+const MAX_CONCURRENT = 2;
+const ANY_RESULT = "result";
+const ANY_ERROR_MESSAGE = "invocation failed";
+
+/** An invocation that only completes when released by the test. */
+function deferredInvocation(): { invocation: () => Promise<string>; release: () => void } {
+  let release = () => {};
+  const completed = new Promise<string>((resolve) => {
+    release = () => resolve(ANY_RESULT);
+  });
+  return { invocation: () => completed, release };
+}
+
+/** Lets queued promise callbacks run. */
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("pool", () => {
+  describe("ProcessPool", () => {
+    it("should run invocations up to the concurrency limit", async () => {
+      // Arrange
+      const pool = new ProcessPool(() => MAX_CONCURRENT);
+      const invocations = [deferredInvocation(), deferredInvocation(), deferredInvocation()];
+
+      // Act
+      invocations.forEach(({ invocation }) => void pool.run(invocation));
+      await flush();
+
+      // Assert
+      expect(pool.running).to.equal(MAX_CONCURRENT);
+      expect(pool.queued).to.equal(1);
+    });
+
+    it("should start a queued invocation when a running one completes", async () => {
+      // Arrange
+      const pool = new ProcessPool(() => MAX_CONCURRENT);
+      const [first, second, third] = [
+        deferredInvocation(),
+        deferredInvocation(),
+        deferredInvocation(),
+      ];
+      void pool.run(first.invocation);
+      void pool.run(second.invocation);
+      void pool.run(third.invocation);
+      await flush();
+
+      // Act
+      first.release();
+      await flush();
+
+      // Assert
+      expect(pool.running).to.equal(MAX_CONCURRENT);
+      expect(pool.queued).to.equal(0);
+    });
+
+    it("should return the result of the invocation", async () => {
+      // Arrange
+      const pool = new ProcessPool(() => MAX_CONCURRENT);
+
+      // Act
+      const result = await pool.run(async () => ANY_RESULT);
+
+      // Assert
+      expect(result).to.equal(ANY_RESULT);
+    });
+
+    it("should free the slot when an invocation fails", async () => {
+      // Arrange
+      const pool = new ProcessPool(() => 1);
+
+      // Act
+      await expect(
+        pool.run(async () => {
+          throw new Error(ANY_ERROR_MESSAGE);
+        })
+      ).to.be.rejectedWith(ANY_ERROR_MESSAGE);
+
+      // Assert
+      expect(pool.running).to.equal(0);
+      expect(await pool.run(async () => ANY_RESULT)).to.equal(ANY_RESULT);
+    });
+  });
+});
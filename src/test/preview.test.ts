@@ -0,0 +1,61 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import * as vscode from "vscode";
+import { applyTextEdits, PreviewContentProvider } from "../preview";
+
+describe("preview", () => {
+  describe("applyTextEdits", () => {
+    it("should apply edits in any order without changing the document", async () => {
+      // Arrange
+      const content = "// keep-sorted start\nb\na\n// keep-sorted end\nz\ny\n";
+      const document = await vscode.workspace.openTextDocument({ content });
+      const edits = [
+        vscode.TextEdit.replace(new vscode.Range(4, 0, 6, 0), "y\nz\n"),
+        vscode.TextEdit.replace(new vscode.Range(1, 0, 3, 0), "a\n"),
+      ];
+
+      // Act
+      const text = applyTextEdits(document, edits);
+
+      // Assert
+      expect(text).to.equal("// keep-sorted start\na\n// keep-sorted end\ny\nz\n");
+      expect(document.getText()).to.equal(content);
+    });
+  });
+
+  describe("PreviewContentProvider", () => {
+    it("should provide the previewed text until it is deleted", () => {
+      // Arrange
+      const provider = new PreviewContentProvider();
+      const documentUri = vscode.Uri.file("/any/file.ts");
+
+      // Act
+      const uri = provider.show(documentUri, "sorted");
+
+      // Assert
+      expect(uri.scheme).to.equal(PreviewContentProvider.scheme);
+      expect(provider.provideTextDocumentContent(uri)).to.equal("sorted");
+      provider.delete(uri);
+      expect(provider.provideTextDocumentContent(uri)).to.equal("");
+      provider.dispose();
+    });
+
+    it("should notify of a new preview of the same document", () => {
+      // Arrange
+      const provider = new PreviewContentProvider();
+      const documentUri = vscode.Uri.file("/any/file.ts");
+      const changed: vscode.Uri[] = [];
+      provider.onDidChange((uri) => changed.push(uri));
+
+      // Act
+      const first = provider.show(documentUri, "first");
+      const second = provider.show(documentUri, "second");
+
+      // Assert
+      expect(second.toString()).to.equal(first.toString());
+      expect(changed).to.have.length(2);
+      expect(provider.provideTextDocumentContent(second)).to.equal("second");
+      provider.dispose();
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import { re2Error, toRegExp } from "../re2";
+
+/* eslint-disable @typescript-eslint/no-unused-expressions */
+
+describe("re2", () => {
+  describe("re2Error", () => {
+    [
+      { pattern: "\\w+", expected: undefined },
+      { pattern: "(?i)foo", expected: undefined },
+      { pattern: "(?is:a.b)c", expected: undefined },
+      { pattern: "(?P<name>\\d+)", expected: undefined },
+      { pattern: "[(?=]", expected: undefined },
+      { pattern: "[]a]", expected: undefined },
+      { pattern: "(?<=a)b", expected: "RE2 doesn't support lookarounds" },
+      { pattern: "a(?!b)", expected: "RE2 doesn't support lookarounds" },
+      { pattern: "(a)\\1", expected: "RE2 doesn't support backreferences" },
+      { pattern: "(?)", expected: 'RE2 doesn\'t support the group "(?)"' },
+      { pattern: "(", expected: "Unterminated group" },
+    ].forEach(({ pattern, expected }) => {
+      it(`should check "${pattern}"`, () => {
+        // Act
+        const error = re2Error(pattern);
+
+        // Assert
+        expect(error).to.equal(expected);
+      });
+    });
+  });
+
+  describe("toRegExp", () => {
+    it("should convert leading flags to JavaScript flags", () => {
+      // Act
+      const regexp = toRegExp("(?is)a.b");
+
+      // Assert
+      expect(regexp?.source).to.equal("a.b");
+      expect(regexp?.flags).to.equal("is");
+    });
+
+    it("should convert named groups", () => {
+      // Act
+      const regexp = toRegExp("(?P<word>\\w+)");
+
+      // Assert
+      expect(regexp?.exec("abc 1")?.groups?.word).to.equal("abc");
+    });
+
+    ["(?i:a)b", "a(?i)b", "(?U)a+", "(?<=a)b"].forEach((pattern) => {
+      it(`should not convert "${pattern}"`, () => {
+        // Act
+        const regexp = toRegExp(pattern);
+
+        // Assert
+        expect(regexp).to.be.undefined;
+      });
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it } from "mocha";
+import { expect } from "chai";
+import * as vscode from "vscode";
+import { countRemovedLines, summarize, toMarkdown, WorkspaceFixReport } from "../report";
+
+const ANY_URI = vscode.Uri.file("/any/file.ts");
+
+describe("report", () => {
+  describe("countRemovedLines", () => {
+    [
+      { text: "b\na\n", newText: "a\nb\n", expected: 0 },
+      { text: "b\na\nb\n", newText: "a\nb\n", expected: 1 },
+      { text: "b\n\na\n", newText: "a\nb\n", expected: 0 },
+      { text: "a\na\na\n", newText: "a\n", expected: 2 },
+    ].forEach(({ text, newText, expected }) => {
+      it(`should count ${expected} removed lines sorting ${JSON.stringify(text)}`, async () => {
+        // Arrange
+        const document = await vscode.workspace.openTextDocument({ content: text });
+        const edit = vscode.TextEdit.replace(
+          new vscode.Range(0, 0, document.lineCount - 1, 0),
+          newText
+        );
+
+        // Act
+        const removed = countRemovedLines(document, [edit]);
+
+        // Assert
+        expect(removed).to.equal(expected);
+      });
+    });
+  });
+
+  describe("summarize", () => {
+    const report: WorkspaceFixReport = {
+      filesScanned: 300,
+      fixes: [
+        { uri: ANY_URI, blocksSorted: 2, duplicatesRemoved: 1 },
+        { uri: ANY_URI, blocksSorted: 1, duplicatesRemoved: 0 },
+      ],
+      failures: [{ uri: ANY_URI, message: "crashed" }],
+      applied: true,
+    };
+
+    it("should total the fixes", () => {
+      // Act
+      const summary = summarize(report);
+
+      // Assert
+      expect(summary).to.equal(
+        "Keep Sorted scanned 300 files: 2 files changed, 3 blocks sorted, 1 duplicate removed, " +
+          "1 failure."
+      );
+    });
+
+    it("should say when the fixes weren't applied", () => {
+      // Act
+      const summary = summarize({ ...report, applied: false });
+
+      // Assert
+      expect(summary).to.match(/Nothing was applied\.$/);
+    });
+
+    it("should list every changed and failed file in the full report", () => {
+      // Act
+      const markdown = toMarkdown(report);
+
+      // Assert
+      expect(markdown).to.include("## Changed files");
+      expect(markdown).to.include("2 blocks sorted, 1 duplicate removed");
+      expect(markdown).to.include("## Failures");
+      expect(markdown).to.include(": crashed");
+    });
+  });
+});
@@ -5,6 +5,7 @@ import sinonChai from "sinon-chai";
 import * as vscode from "vscode";
 import * as workspace from "../workspace";
 import * as configuration from "../configuration";
+import { KeepSorted } from "../keepsorted";
 
 use(sinonChai);
 
@@ -60,6 +61,87 @@ describe("workspace", () => {
     });
   });
 
+  describe("EditFactory.lintFiles", () => {
+    it("publishes diagnostics, skips documents with unsaved changes and returns failures", async () => {
+      // Arrange
+      const sorted = vscode.Uri.file("/a/sorted.ts");
+      const unsorted = vscode.Uri.file("/a/unsorted.ts");
+      const dirty = vscode.Uri.file("/a/dirty.ts");
+      const diagnostic = new vscode.Diagnostic(new vscode.Range(1, 0, 3, 0), "out of order");
+      const linter = sinon.createStubInstance(KeepSorted);
+      const failure = { uri: vscode.Uri.file("/a/deleted.ts"), error: new Error("deleted") };
+      linter.lintFiles.resolves({
+        diagnostics: [
+          [sorted, []],
+          [unsorted, [diagnostic]],
+        ],
+        failures: [failure],
+      });
+      const diagnostics = { set: sandbox.stub() } as unknown as vscode.DiagnosticCollection;
+      sandbox
+        .stub(vscode.workspace, "textDocuments")
+        .value([{ uri: dirty, isDirty: true } as vscode.TextDocument]);
+      const editFactory = new workspace.EditFactory(linter, diagnostics);
+
+      // Act
+      const results = await editFactory.lintFiles([sorted, unsorted, dirty]);
+
+      // Assert
+      expect(linter.lintFiles).to.have.been.calledOnceWith([sorted, unsorted]);
+      expect(diagnostics.set).to.have.been.calledOnceWith([
+        [sorted, []],
+        [unsorted, [diagnostic]],
+      ]);
+      expect(results).to.deep.equal({ fixable: [unsorted, dirty], failures: [failure] });
+    });
+  });
+
+  describe("updateSeverities", () => {
+    it("updates published diagnostics to the severity of each file", async () => {
+      // Arrange
+      const source = vscode.Uri.file("/a/src/one.ts");
+      const docs = vscode.Uri.file("/a/docs/two.md");
+      const collection = vscode.languages.createDiagnosticCollection("test");
+      collection.set(source, [new vscode.Diagnostic(new vscode.Range(0, 0, 1, 0), "one")]);
+      collection.set(docs, [new vscode.Diagnostic(new vscode.Range(0, 0, 1, 0), "two")]);
+      sandbox
+        .stub(configuration, "getSeverity")
+        .callsFake((uri) =>
+          uri.path.startsWith("/a/src")
+            ? vscode.DiagnosticSeverity.Error
+            : vscode.DiagnosticSeverity.Hint
+        );
+
+      // Act
+      await workspace.updateSeverities(collection);
+
+      // Assert
+      expect(collection.get(source)!.map((d) => d.severity)).to.deep.equal([
+        vscode.DiagnosticSeverity.Error,
+      ]);
+      expect(collection.get(docs)!.map((d) => d.severity)).to.deep.equal([
+        vscode.DiagnosticSeverity.Hint,
+      ]);
+      collection.dispose();
+    });
+  });
+
+  describe("plural", () => {
+    [
+      { count: 1, expected: "1 block" },
+      { count: 2, expected: "2 blocks" },
+      { count: 0, expected: "0 blocks" },
+    ].forEach(({ count, expected }) => {
+      it(`should format ${count}`, () => {
+        // Act
+        const text = workspace.plural(count, "block");
+
+        // Assert
+        expect(text).to.equal(expected);
+      });
+    });
+  });
+
   describe("inScopeUris", () => {
     it("filters non-file URI", async () => {
       // Arrange
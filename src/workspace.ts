@@ -1,8 +1,9 @@
 import * as vscode from "vscode";
 import * as util from "util";
-import { excluded } from "./configuration";
+import { excluded, getSeverity } from "./configuration";
+import { blockRange } from "./diagnostics";
 import { contextualizeLogger, relevantDiagnostics } from "./instrumentation";
-import { KeepSorted } from "./keepsorted";
+import { FileLintFailure, KeepSorted } from "./keepsorted";
 
 /** Schemas that this extension supports */
 export const IN_SCOPE_SCHEMAS = ["file", "untitled"];
@@ -37,17 +38,11 @@ export class EditFactory {
   private async applyToEdit(
     edit: vscode.WorkspaceEdit,
     document: vscode.TextDocument,
-    range?: vscode.Range
+    range?: vscode.Range,
+    token?: vscode.CancellationToken
   ) {
-    const fixedContent = await this.linter.fixDocument(document, range);
-    if (fixedContent === null) {
-      return;
-    }
-    edit.replace(
-      document.uri,
-      range ?? new vscode.Range(0, 0, document.lineCount - 1, 0),
-      fixedContent
-    );
+    const textEdits = await this.linter.createTextEdits(document, range, token);
+    edit.set(document.uri, textEdits);
   }
 
   /**
@@ -56,7 +51,8 @@ export class EditFactory {
    */
   async create(
     document: vscode.TextDocument,
-    range?: vscode.Range
+    range?: vscode.Range,
+    token?: vscode.CancellationToken
   ): Promise<CreateEditResult | null> {
     const diagnostics = relevantDiagnostics(document, range);
     if (!diagnostics || diagnostics.length === 0) {
@@ -72,10 +68,76 @@ export class EditFactory {
 
     const uri = document.uri;
     const edit = new vscode.WorkspaceEdit();
-    await this.applyToEdit(edit, document, range);
+    await this.applyToEdit(edit, document, range, token);
 
     return { documentUri: uri, edit, diagnostics: [...diagnostics] };
   }
+
+  /**
+   * Lints files as saved on disk in batches and publishes their diagnostics.
+   *
+   * Open documents with unsaved changes are skipped since their diagnostics come from the editor's
+   * text rather than the file. Diagnostics are published for every file that could be linted, even
+   * if others failed.
+   *
+   * @param onProgress Called with the number of files done so far, counting the skipped ones first
+   *
+   * @returns The files that may need fixing: those with findings and the skipped documents, and the
+   *   files that couldn't be linted
+   */
+  async lintFiles(
+    uris: vscode.Uri[],
+    token?: vscode.CancellationToken,
+    onProgress?: (done: number) => void
+  ): Promise<{ fixable: vscode.Uri[]; failures: FileLintFailure[] }> {
+    const dirty = new Set(
+      vscode.workspace.textDocuments.filter((d) => d.isDirty).map((d) => d.uri.toString())
+    );
+    const skipped: vscode.Uri[] = [];
+    const onDisk: vscode.Uri[] = [];
+    for (const uri of uris) {
+      (uri.scheme !== "file" || dirty.has(uri.toString()) ? skipped : onDisk).push(uri);
+    }
+    const { diagnostics, failures } = await this.linter.lintFiles(onDisk, token, (linted) =>
+      onProgress?.(skipped.length + linted)
+    );
+    this.diagnostics.set(diagnostics);
+    const fixable = [
+      ...diagnostics
+        .filter(([, fileDiagnostics]) => fileDiagnostics.length > 0)
+        .map(([uri]) => uri),
+      ...skipped,
+    ];
+    return { fixable, failures };
+  }
+
+  /**
+   * Lints the document, publishing its diagnostics.
+   *
+   * @throws CancellationError if cancelled
+   * @throws TimeoutError if the binary doesn't exit within the configured timeout
+   */
+  async lint(document: vscode.TextDocument, token?: vscode.CancellationToken): Promise<void> {
+    this.diagnostics.set(document.uri, await this.linter.lintDocument(document, token));
+  }
+
+  /**
+   * Creates a WorkspaceEdit that sorts only the block of the diagnostic.
+   *
+   * @throws BlockNotFixableError explaining why if the block can't be fixed in isolation
+   */
+  async createForDiagnostic(
+    document: vscode.TextDocument,
+    diagnostic: vscode.Diagnostic,
+    token?: vscode.CancellationToken
+  ): Promise<CreateEditResult> {
+    const edit = new vscode.WorkspaceEdit();
+    edit.set(
+      document.uri,
+      await this.linter.createBlockTextEdits(document, blockRange(diagnostic), token)
+    );
+    return { documentUri: document.uri, edit, diagnostics: [diagnostic] };
+  }
 }
 
 /** Gets the human readable representation of a range. */
@@ -92,6 +154,11 @@ export function rangeText(range?: vscode.Range): string {
   return `[${range.start.line + 1}:${range.end.line}]`;
 }
 
+/** Formats a count with the singular or plural of a noun, such as `2 blocks`. */
+export function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
 /** Gets the root path of the first workspace found, or undefined if no workspace is open. */
 export function rootPath(): string | undefined {
   if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
@@ -120,6 +187,40 @@ export function isInScope(uri: vscode.Uri): boolean {
   return false;
 }
 
+/**
+ * Gets the document of the file, opening it only if it isn't open already.
+ *
+ * @returns The document, or undefined if the file can't be opened
+ */
+export async function findOrOpenDocument(
+  uri: vscode.Uri
+): Promise<vscode.TextDocument | undefined> {
+  const open = vscode.workspace.textDocuments.find((d) => d.uri.toString() === uri.toString());
+  if (open) {
+    return open;
+  }
+  try {
+    return await vscode.workspace.openTextDocument(uri);
+  } catch (err: Error | unknown) {
+    contextualizeLogger(uri).debug(`Unable to open document: ${err}`);
+    return undefined;
+  }
+}
+
+/**
+ * Updates the severity of all published diagnostics, such as after the `keep-sorted.severity`
+ * setting changes, without linting the files again.
+ */
+export async function updateSeverities(diagnostics: vscode.DiagnosticCollection): Promise<void> {
+  const published: [vscode.Uri, readonly vscode.Diagnostic[]][] = [];
+  diagnostics.forEach((uri, fileDiagnostics) => published.push([uri, fileDiagnostics]));
+  for (const [uri, fileDiagnostics] of published) {
+    const severity = getSeverity(uri, (await findOrOpenDocument(uri))?.languageId);
+    fileDiagnostics.forEach((diagnostic) => (diagnostic.severity = severity));
+    diagnostics.set(uri, fileDiagnostics);
+  }
+}
+
 /** Converts a value to a pretty printed JSON string representation. */
 export function toJson(value: unknown): string {
   if (typeof value === "string") {